@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, state} from 'lit/decorators.js';
+import {
+  BankItem,
+  BankKind,
+  QUESTION_BANKS,
+  fetchBank,
+  parseBankImport,
+  saveBankItems,
+  setBankItemRetired,
+  validateBankItem,
+} from './question-bank';
+
+/**
+ * Authoring view for the question banks. Only rendered for admins; the
+ * tables' Row Level Security policies are what actually restrict writes.
+ */
+@customElement('gdm-admin-console')
+export class GdmAdminConsole extends LitElement {
+  @state() private kind: BankKind = 'cueCards';
+  @state() private items: BankItem[] = [];
+  @state() private editing: BankItem | null = null;
+  @state() private showRetired = false;
+  @state() private message: {text: string; isError: boolean} | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      max-width: 900px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    .tabs {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 20px;
+    }
+    button {
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #555;
+      border-radius: 6px;
+      padding: 8px 14px;
+      cursor: pointer;
+      font-size: 0.9rem;
+    }
+    button:hover {
+      background-color: #444;
+    }
+    button.active,
+    button.primary {
+      background-color: #4285f4;
+      border-color: #4285f4;
+      color: white;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 16px;
+      flex-wrap: wrap;
+    }
+    .toolbar label {
+      font-size: 0.9rem;
+      color: #bbb;
+    }
+    .message {
+      padding: 10px;
+      border-radius: 6px;
+      margin-bottom: 16px;
+      background-color: #1e3a1e;
+    }
+    .message.error {
+      background-color: #4a1e1e;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+    li {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 10px 0;
+      border-bottom: 1px solid #333;
+    }
+    li.retired .item-title {
+      color: #777;
+      text-decoration: line-through;
+    }
+    .item-title {
+      flex: 1;
+    }
+    .item-meta {
+      font-size: 0.8rem;
+      color: #999;
+    }
+    form {
+      background-color: #1e1e1e;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 16px;
+      margin-bottom: 20px;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+    form label {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 0.9rem;
+      color: #bbb;
+    }
+    input,
+    select,
+    textarea {
+      background-color: #2a2a2a;
+      color: #e0e0e0;
+      border: 1px solid #444;
+      border-radius: 6px;
+      padding: 8px;
+      font-size: 0.95rem;
+      font-family: inherit;
+    }
+    textarea {
+      min-height: 100px;
+    }
+    .form-actions {
+      display: flex;
+      gap: 8px;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.load();
+  }
+
+  private async load() {
+    const kind = this.kind;
+    try {
+      const items = await fetchBank(kind);
+      // A slow answer for a tab left since must not replace the new one.
+      if (kind === this.kind) this.items = items;
+    } catch (e) {
+      console.error('Error loading question bank:', e);
+      if (kind !== this.kind) return;
+      this.showMessage(`Could not load items: ${(e as Error).message}`, true);
+    }
+  }
+
+  private showMessage(text: string, isError = false) {
+    this.message = {text, isError};
+  }
+
+  private selectKind(kind: BankKind) {
+    this.kind = kind;
+    this.editing = null;
+    this.message = null;
+    this.items = [];
+    this.load();
+  }
+
+  private async handleSubmit(e: SubmitEvent) {
+    e.preventDefault();
+    const form = new FormData(e.target as HTMLFormElement);
+    const raw: BankItem = {id: this.editing?.id};
+    for (const field of QUESTION_BANKS[this.kind].fields) {
+      const value = String(form.get(field.key) ?? '');
+      raw[field.key] = field.list ? value.split('\n') : value;
+    }
+
+    try {
+      const item = validateBankItem(this.kind, raw);
+      await saveBankItems(this.kind, [item]);
+      this.editing = null;
+      this.showMessage('Saved.');
+      await this.load();
+    } catch (err) {
+      console.error('Error saving question bank item:', err);
+      this.showMessage((err as Error).message, true);
+    }
+  }
+
+  private async toggleRetired(item: BankItem) {
+    try {
+      await setBankItemRetired(this.kind, item.id!, !item.retired);
+      await this.load();
+    } catch (e) {
+      console.error('Error retiring question bank item:', e);
+      this.showMessage((e as Error).message, true);
+    }
+  }
+
+  private async handleImport(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const items = parseBankImport(this.kind, await file.text());
+      await saveBankItems(this.kind, items);
+      this.showMessage(`Imported ${items.length} items from ${file.name}.`);
+      await this.load();
+    } catch (err) {
+      console.error('Error importing question bank:', err);
+      this.showMessage(`Import failed: ${(err as Error).message}`, true);
+    }
+  }
+
+  private renderEditor() {
+    const item = this.editing!;
+    return html`
+      <form @submit=${this.handleSubmit}>
+        ${QUESTION_BANKS[this.kind].fields.map((field) => {
+          const value = item[field.key];
+          let control;
+          if (field.list) {
+            control = html`<textarea
+              name=${field.key}
+              placeholder="One per line"
+              .value=${((value as string[] | null) ?? []).join(
+                '\n',
+              )}></textarea>`;
+          } else if (field.options) {
+            control = html`<select name=${field.key}>
+              <option value="" ?selected=${!value}>None</option>
+              ${field.options.map(
+                (option) =>
+                  html`<option value=${option} ?selected=${value === option}>
+                    ${option}
+                  </option>`,
+              )}
+            </select>`;
+          } else {
+            control = html`<input name=${field.key} .value=${value ?? ''} />`;
+          }
+          return html`<label>${field.label}${control}</label>`;
+        })}
+        <div class="form-actions">
+          <button class="primary" type="submit">Save</button>
+          <button type="button" @click=${() => (this.editing = null)}>
+            Cancel
+          </button>
+        </div>
+      </form>
+    `;
+  }
+
+  private renderItem(item: BankItem) {
+    const {titleKey, fields} = QUESTION_BANKS[this.kind];
+    const listField = fields.find((field) => field.list)!;
+    return html`
+      <li class=${item.retired ? 'retired' : ''}>
+        <div class="item-title">
+          ${item[titleKey]}
+          <div class="item-meta">
+            ${((item[listField.key] as string[] | null) ?? []).length}
+            ${listField.label.toLowerCase()}
+            ${item.category ? ` · ${item.category}` : ''}
+            ${item.retired ? ' · retired' : ''}
+          </div>
+        </div>
+        <button @click=${() => (this.editing = item)}>Edit</button>
+        <button @click=${() => this.toggleRetired(item)}>
+          ${item.retired ? 'Restore' : 'Retire'}
+        </button>
+      </li>
+    `;
+  }
+
+  render() {
+    const visible = this.items.filter(
+      (item) => this.showRetired || !item.retired,
+    );
+    return html`
+      <div class="tabs">
+        ${(Object.keys(QUESTION_BANKS) as BankKind[]).map(
+          (kind) =>
+            html`<button
+              class=${this.kind === kind ? 'active' : ''}
+              @click=${() => this.selectKind(kind)}>
+              ${QUESTION_BANKS[kind].label}
+            </button>`,
+        )}
+      </div>
+      ${this.message
+        ? html`<div class="message ${this.message.isError ? 'error' : ''}">
+            ${this.message.text}
+          </div>`
+        : ''}
+      <div class="toolbar">
+        <button class="primary" @click=${() => (this.editing = {})}>
+          New item
+        </button>
+        <label>
+          Import CSV / JSON
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            @change=${this.handleImport} />
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            .checked=${this.showRetired}
+            @change=${(e: Event) =>
+              (this.showRetired = (e.target as HTMLInputElement).checked)} />
+          Show retired
+        </label>
+      </div>
+      ${this.editing ? this.renderEditor() : ''}
+      <ul>
+        ${visible.map((item) => this.renderItem(item))}
+      </ul>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-admin-console': GdmAdminConsole;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {decodeAudioData} from './utils';
+
+/**
+ * Schedules the examiner's 24 kHz PCM chunks back-to-back on an output node.
+ */
+export class AudioPlayback {
+  private nextStartTime = 0;
+  private sources = new Set<AudioBufferSourceNode>();
+
+  constructor(
+    private readonly context: AudioContext,
+    private readonly destination: AudioNode,
+  ) {}
+
+  async enqueue(data: Uint8Array) {
+    this.nextStartTime = Math.max(this.nextStartTime, this.context.currentTime);
+
+    const audioBuffer = await decodeAudioData(data, this.context, 24000, 1);
+    const source = this.context.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(this.destination);
+    source.addEventListener('ended', () => {
+      this.sources.delete(source);
+    });
+
+    source.start(this.nextStartTime);
+    this.nextStartTime = this.nextStartTime + audioBuffer.duration;
+    this.sources.add(source);
+  }
+
+  /** Time until everything queued so far has finished playing. */
+  get remainingMs() {
+    return Math.max(0, this.nextStartTime - this.context.currentTime) * 1000;
+  }
+
+  /** Stops everything queued, e.g. when the candidate barges in. */
+  interrupt() {
+    for (const source of this.sources.values()) {
+      source.stop();
+      this.sources.delete(source);
+    }
+    this.nextStartTime = 0;
+  }
+}
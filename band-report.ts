@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Schema, Type} from '@google/genai';
+
+export type BandCriterion =
+  | 'fluencyCoherence'
+  | 'lexicalResource'
+  | 'grammaticalRangeAccuracy'
+  | 'pronunciation';
+
+export const BAND_CRITERIA: Array<{key: BandCriterion; label: string}> = [
+  {key: 'fluencyCoherence', label: 'Fluency & Coherence'},
+  {key: 'lexicalResource', label: 'Lexical Resource'},
+  {key: 'grammaticalRangeAccuracy', label: 'Grammatical Range & Accuracy'},
+  {key: 'pronunciation', label: 'Pronunciation'},
+];
+
+export interface CriterionAssessment {
+  band: number;
+  justification: string;
+  quotes: string[];
+}
+
+/** An advanced word or phrase the candidate could have used. */
+export interface VocabularySuggestion {
+  word: string;
+  definition: string;
+  example: string;
+}
+
+export type BandReport = Record<BandCriterion, CriterionAssessment> & {
+  overallBand: number;
+  summary: string;
+  /** Missing from reports made before the vocabulary notebook. */
+  vocabulary?: VocabularySuggestion[];
+};
+
+const CRITERION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    band: {type: Type.INTEGER, minimum: 0, maximum: 9},
+    justification: {type: Type.STRING},
+    quotes: {
+      type: Type.ARRAY,
+      items: {type: Type.STRING},
+      minItems: '1',
+      maxItems: '3',
+    },
+  },
+  required: ['band', 'justification', 'quotes'],
+  propertyOrdering: ['band', 'justification', 'quotes'],
+};
+
+/**
+ * Response schema for the examiner assessment. The overall band is not part
+ * of the schema: it is always derived locally with `roundOverallBand`.
+ */
+export const BAND_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ...Object.fromEntries(
+      BAND_CRITERIA.map(({key}) => [key, CRITERION_SCHEMA]),
+    ),
+    summary: {type: Type.STRING},
+    vocabulary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: {type: Type.STRING},
+          definition: {type: Type.STRING},
+          example: {type: Type.STRING},
+        },
+        required: ['word', 'definition', 'example'],
+        propertyOrdering: ['word', 'definition', 'example'],
+      },
+      minItems: '2',
+      maxItems: '4',
+    },
+  },
+  required: [...BAND_CRITERIA.map(({key}) => key), 'summary', 'vocabulary'],
+  propertyOrdering: [
+    ...BAND_CRITERIA.map(({key}) => key),
+    'summary',
+    'vocabulary',
+  ],
+};
+
+/**
+ * Averages the criterion bands the way IELTS does: an average ending in .25
+ * rounds up to the next half band and one ending in .75 to the next whole
+ * band.
+ */
+export function roundOverallBand(bands: number[]): number {
+  const average = bands.reduce((sum, band) => sum + band, 0) / bands.length;
+  return Math.floor(average * 2 + 0.5) / 2;
+}
+
+export function buildBandReportPrompt(
+  transcripts: Array<{speaker: string; text: string}>,
+  observations: string[] = [],
+): string {
+  const dialogue = transcripts
+    .map(({speaker, text}) => `${speaker}: ${text}`)
+    .join('\n');
+  const notes = observations.length
+    ? `\nObservations recorded during the test:\n${observations.map((o) => `- ${o}`).join('\n')}`
+    : '';
+
+  return `You are a certified IELTS speaking examiner. Assess the Candidate in the following speaking test transcript against the four official IELTS speaking criteria: Fluency & Coherence, Lexical Resource, Grammatical Range & Accuracy and Pronunciation.
+For each criterion give a whole band from 0 to 9 as defined in the public IELTS band descriptors, a short justification, and one to three short quotes copied verbatim from the Candidate's lines that support the band.
+Pronunciation can only be judged from the transcription, so base it on signs such as mis-transcribed words and keep the justification cautious.
+Finish with a two sentence summary of the candidate's performance.
+Then suggest two to four advanced words or phrases the candidate could have used on the topics they spoke about, each with a short learner's definition and an example sentence showing how they could have used it in one of their answers.
+Transcript:
+${dialogue}${notes}`;
+}
+
+function parseCriterion(value: unknown, label: string): CriterionAssessment {
+  const criterion = value as Partial<CriterionAssessment> | undefined;
+  if (
+    !criterion ||
+    !Number.isInteger(criterion.band) ||
+    criterion.band! < 0 ||
+    criterion.band! > 9
+  ) {
+    throw new Error(`Invalid band for ${label}.`);
+  }
+  if (typeof criterion.justification !== 'string') {
+    throw new Error(`Missing justification for ${label}.`);
+  }
+  if (
+    !Array.isArray(criterion.quotes) ||
+    !criterion.quotes.every((q) => typeof q === 'string')
+  ) {
+    throw new Error(`Invalid quotes for ${label}.`);
+  }
+  return {
+    band: criterion.band!,
+    justification: criterion.justification,
+    quotes: criterion.quotes,
+  };
+}
+
+/**
+ * Validates the model output against `BAND_REPORT_SCHEMA` and adds the
+ * overall band. Throws if the response does not match the schema.
+ */
+export function parseBandReport(text: string): BandReport {
+  const raw = JSON.parse(text);
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Band report is not an object.');
+  }
+  if (typeof raw.summary !== 'string') {
+    throw new Error('Band report is missing a summary.');
+  }
+  if (
+    !Array.isArray(raw.vocabulary) ||
+    !raw.vocabulary.every(
+      (v: Partial<VocabularySuggestion>) =>
+        typeof v?.word === 'string' &&
+        typeof v.definition === 'string' &&
+        typeof v.example === 'string',
+    )
+  ) {
+    throw new Error('Band report has invalid vocabulary suggestions.');
+  }
+
+  const criteria = Object.fromEntries(
+    BAND_CRITERIA.map(({key, label}) => [key, parseCriterion(raw[key], label)]),
+  ) as Record<BandCriterion, CriterionAssessment>;
+
+  return {
+    ...criteria,
+    overallBand: roundOverallBand(
+      BAND_CRITERIA.map(({key}) => criteria[key].band),
+    ),
+    summary: raw.summary,
+    vocabulary: raw.vocabulary.map(({word, definition, example}) => ({
+      word: word.trim(),
+      definition,
+      example,
+    })),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {repository} from './repository';
+
+export const CUE_CARD_CATEGORIES = [
+  'person',
+  'place',
+  'object',
+  'event',
+  'experience',
+] as const;
+export type CueCardCategory = (typeof CUE_CARD_CATEGORIES)[number];
+
+export const CUE_CARD_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type CueCardDifficulty = (typeof CUE_CARD_DIFFICULTIES)[number];
+
+export interface CueCard {
+  id: string;
+  title: string;
+  bullets: string[];
+  category: CueCardCategory | null;
+  difficulty: CueCardDifficulty | null;
+  /** Topic rotation seasons such as "2026 Sep-Dec"; empty for evergreen. */
+  seasons: string[];
+}
+
+export interface CueCardSelection {
+  cardId?: string;
+  category?: CueCardCategory;
+  difficulty?: CueCardDifficulty;
+}
+
+/** The IELTS topic rotation season a date falls in, e.g. "2026 Sep-Dec". */
+export function topicSeason(date = new Date()): string {
+  const seasons = ['Jan-Apr', 'May-Aug', 'Sep-Dec'];
+  return `${date.getFullYear()} ${seasons[Math.floor(date.getMonth() / 4)]}`;
+}
+
+/** An `ielts_part2_cues` row. */
+export interface CueCardRow {
+  id: string;
+  title: string;
+  bullets?: string[] | null;
+  category?: CueCardCategory | null;
+  difficulty?: CueCardDifficulty | null;
+  season_tags?: string[] | null;
+  bullet_a?: string | null;
+  bullet_b?: string | null;
+  bullet_c?: string | null;
+  bullet_d?: string | null;
+}
+
+/**
+ * Builds a `CueCard` from a table row. Older rows keep their bullets in the
+ * fixed `bullet_a..bullet_d` columns instead of the `bullets` array.
+ */
+export function toCueCard(row: CueCardRow): CueCard {
+  const bullets: string[] = (
+    row.bullets?.length
+      ? row.bullets
+      : [row.bullet_a, row.bullet_b, row.bullet_c, row.bullet_d]
+  ).filter((p: unknown): p is string => typeof p === 'string' && !!p.trim());
+
+  return {
+    id: row.id,
+    title: row.title,
+    bullets,
+    category: row.category ?? null,
+    difficulty: row.difficulty ?? null,
+    seasons: row.season_tags ?? [],
+  };
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+/**
+ * Picks the cue card for a Part 2 session. A specific card is returned as is;
+ * otherwise cards the user has never attempted are preferred, current-season
+ * cards first, and once every matching card has been used the one attempted
+ * longest ago is repeated.
+ */
+export async function selectCueCard(
+  userId: string,
+  selection: CueCardSelection = {},
+): Promise<CueCard> {
+  if (selection.cardId) {
+    const card = await repository.fetchCueCard(selection.cardId);
+    if (!card) throw new Error('The selected cue card no longer exists.');
+    return card;
+  }
+
+  const [cards, attempts] = await Promise.all([
+    repository.fetchCueCards(selection),
+    repository.fetchCueCardAttempts(userId),
+  ]);
+
+  // This is the most likely failure point if RLS is enabled without a policy:
+  // the query succeeds but returns no rows.
+  if (cards.length === 0) {
+    throw new Error(
+      'No cue cards were returned from the database. If cards exist for this category, check that Row Level Security on the `ielts_part2_cues` table has a policy which allows authenticated users to SELECT from it.',
+    );
+  }
+
+  const season = topicSeason();
+  const unattempted = cards.filter((card) => !attempts.has(card.id));
+  const inSeason = unattempted.filter((card) => card.seasons.includes(season));
+  if (inSeason.length > 0) return pickRandom(inSeason);
+  if (unattempted.length > 0) return pickRandom(unattempted);
+
+  return cards.reduce((oldest, card) =>
+    attempts.get(card.id)! < attempts.get(oldest.id)! ? card : oldest,
+  );
+}
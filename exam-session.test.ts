@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  LiveCallbacks,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerContent,
+  LiveServerMessage,
+} from '@google/genai';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+  ExamSession,
+  ExamSessionEvents,
+  LiveConnection,
+  LiveTransport,
+  RECONNECT_DELAYS_MS,
+} from './exam-session';
+import {encode} from './utils';
+
+function closeEvent(code: number, wasClean: boolean) {
+  return {code, reason: '', wasClean} as CloseEvent;
+}
+
+/** The server end of one Live connection, driven by the test. */
+class FakeConnection implements LiveConnection {
+  clientContent: LiveSendClientContentParameters[] = [];
+  realtimeInput: LiveSendRealtimeInputParameters[] = [];
+  isClosed = false;
+
+  constructor(private readonly callbacks: LiveCallbacks) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.realtimeInput.push(params);
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.clientContent.push(params);
+  }
+
+  close() {
+    this.isClosed = true;
+    this.callbacks.onclose?.(closeEvent(1000, true));
+  }
+
+  send(serverContent: LiveServerContent) {
+    this.callbacks.onmessage(
+      Object.assign(new LiveServerMessage(), {serverContent}),
+    );
+  }
+
+  drop() {
+    this.callbacks.onclose?.(closeEvent(1006, false));
+  }
+}
+
+class FakeTransport implements LiveTransport {
+  connections: FakeConnection[] = [];
+  // How many of the next connection attempts fail.
+  failures = 0;
+
+  async connect({callbacks}: {callbacks: LiveCallbacks}) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Network unreachable');
+    }
+    const connection = new FakeConnection(callbacks);
+    this.connections.push(connection);
+    callbacks.onopen?.();
+    return connection;
+  }
+
+  get current() {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+function record<K extends keyof ExamSessionEvents>(
+  session: ExamSession,
+  type: K,
+) {
+  const events: Array<ExamSessionEvents[K]> = [];
+  session.on(type, (event) => events.push(event));
+  return events;
+}
+
+describe('ExamSession', () => {
+  let transport: FakeTransport;
+  let session: ExamSession;
+  let now: number;
+
+  beforeEach(async () => {
+    transport = new FakeTransport();
+    now = 0;
+    session = new ExamSession({
+      transport,
+      systemInstruction: 'You are an IELTS examiner.',
+      clock: () => now,
+    });
+    await session.start();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('merges transcript deltas into speaker turns', () => {
+    const deltas = record(session, 'transcript-delta');
+
+    transport.current.send({outputTranscription: {text: 'Where do'}});
+    now = 400;
+    transport.current.send({outputTranscription: {text: ' you live?'}});
+    now = 1500;
+    transport.current.send({inputTranscription: {text: 'In London.'}});
+
+    expect(deltas.map(({speaker, text}) => [speaker, text])).toEqual([
+      ['Examiner', 'Where do'],
+      ['Examiner', ' you live?'],
+      ['Candidate', 'In London.'],
+    ]);
+    expect(session.transcripts).toEqual([
+      {
+        speaker: 'Examiner',
+        text: 'Where do you live?',
+        startMs: 0,
+        endMs: 400,
+        deltas: [
+          {text: 'Where do', offsetMs: 0},
+          {text: ' you live?', offsetMs: 400},
+        ],
+      },
+      {
+        speaker: 'Candidate',
+        text: 'In London.',
+        startMs: 1500,
+        endMs: 1500,
+        deltas: [{text: 'In London.', offsetMs: 1500}],
+      },
+    ]);
+  });
+
+  it('finalizes a turn once the other speaker starts', () => {
+    const finalized = record(session, 'turn-finalized');
+
+    transport.current.send({outputTranscription: {text: 'Where do you live?'}});
+    expect(finalized).toEqual([]);
+
+    transport.current.send({inputTranscription: {text: 'In London.'}});
+    expect(finalized).toEqual([
+      expect.objectContaining({
+        index: 0,
+        speaker: 'Examiner',
+        text: 'Where do you live?',
+      }),
+    ]);
+  });
+
+  it('reports examiner audio, turn completion and interruptions', () => {
+    const audio = record(session, 'audio-chunk');
+    const completed = record(session, 'turn-complete');
+    const interrupted = record(session, 'interrupted');
+    const pcm = new Uint8Array([1, 2, 3, 4]);
+
+    transport.current.send({
+      modelTurn: {
+        parts: [
+          {inlineData: {data: encode(pcm), mimeType: 'audio/pcm;rate=24000'}},
+        ],
+      },
+      outputTranscription: {text: 'Thank you.'},
+    });
+    transport.current.send({turnComplete: true});
+    transport.current.send({interrupted: true});
+
+    expect(audio).toEqual([{data: pcm, mimeType: 'audio/pcm;rate=24000'}]);
+    expect(completed).toEqual([{transcripts: session.transcripts}]);
+    expect(interrupted).toHaveLength(1);
+  });
+
+  it('passes instructions and microphone audio to the connection', () => {
+    session.sendInstruction('Time is up.', true);
+    session.sendAudio(new Float32Array(160));
+
+    expect(transport.current.clientContent).toEqual([
+      {turns: 'Time is up.', turnComplete: true},
+    ]);
+    expect(transport.current.realtimeInput).toHaveLength(1);
+    expect(transport.current.realtimeInput[0].media?.mimeType).toBe(
+      'audio/pcm;rate=16000',
+    );
+  });
+
+  it('reconnects after a drop and re-primes the examiner', async () => {
+    vi.useFakeTimers();
+    const states = record(session, 'state-change');
+    transport.current.send({outputTranscription: {text: 'Where do you live?'}});
+    transport.current.send({inputTranscription: {text: 'In London.'}});
+
+    transport.current.drop();
+    expect(session.state).toBe('reconnecting');
+    expect(transport.connections).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(RECONNECT_DELAYS_MS[0]);
+
+    expect(transport.connections).toHaveLength(2);
+    expect(states.map(({state}) => state)).toEqual(['reconnecting', 'live']);
+    const [reprime] = transport.current.clientContent;
+    expect(reprime.turnComplete).toBe(true);
+    expect(reprime.turns).toContain(
+      'Examiner: Where do you live?\nCandidate: In London.',
+    );
+
+    // Turns keep growing on the new connection.
+    transport.current.send({inputTranscription: {text: ' It is busy.'}});
+    expect(session.transcripts[1].text).toBe('In London. It is busy.');
+  });
+
+  it('backs off between failed attempts and gives up', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const closed = record(session, 'closed');
+    transport.failures = RECONNECT_DELAYS_MS.length;
+
+    transport.current.drop();
+    for (const delay of RECONNECT_DELAYS_MS.slice(0, -1)) {
+      await vi.advanceTimersByTimeAsync(delay);
+      expect(session.state).toBe('reconnecting');
+    }
+    await vi.advanceTimersByTimeAsync(RECONNECT_DELAYS_MS.at(-1)!);
+
+    expect(session.state).toBe('failed');
+    expect(transport.connections).toHaveLength(1);
+    expect(closed).toEqual([
+      {code: 1006, reason: 'Reconnection failed', wasClean: false},
+    ]);
+  });
+
+  it('finalizes the turn in progress when closed', () => {
+    const finalized = record(session, 'turn-finalized');
+    const closed = record(session, 'closed');
+    transport.current.send({outputTranscription: {text: 'Where do you live?'}});
+    transport.current.send({inputTranscription: {text: 'In London.'}});
+    const connection = transport.current;
+
+    session.close();
+
+    expect(finalized.map(({index, speaker}) => [index, speaker])).toEqual([
+      [0, 'Examiner'],
+      [1, 'Candidate'],
+    ]);
+    expect(connection.isClosed).toBe(true);
+    expect(session.state).toBe('closed');
+    expect(closed).toEqual([{code: 1000, reason: '', wasClean: true}]);
+  });
+
+  it('ignores a late close from a replaced connection', async () => {
+    vi.useFakeTimers();
+    const dropped = transport.current;
+    dropped.drop();
+    await vi.advanceTimersByTimeAsync(RECONNECT_DELAYS_MS[0]);
+
+    dropped.drop();
+
+    expect(session.state).toBe('live');
+    expect(transport.connections).toHaveLength(2);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage,
+  Modality,
+} from '@google/genai';
+import {createBlob, decode} from './utils';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-preview-native-audio-dialog';
+
+// Delays between reconnection attempts after the socket drops unexpectedly.
+export const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+
+export type ConnectionState =
+  'connecting' | 'live' | 'reconnecting' | 'failed' | 'closed';
+
+export interface TranscriptDelta {
+  text: string;
+  offsetMs: number;
+}
+
+/** A speaker turn, timed in milliseconds from the start of the session. */
+export interface TranscriptEntry {
+  speaker: string;
+  text: string;
+  startMs: number;
+  endMs: number;
+  deltas: TranscriptDelta[];
+}
+
+/**
+ * The subset of a Live API session used by `ExamSession`. The `Session`
+ * returned by `GoogleGenAI.live.connect` satisfies it.
+ */
+export interface LiveConnection {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens Live connections. `GoogleGenAI.live` satisfies it; tests can pass a
+ * scripted fake instead.
+ */
+export interface LiveTransport {
+  connect(params: {
+    model: string;
+    callbacks: LiveCallbacks;
+    config?: LiveConnectConfig;
+  }): Promise<LiveConnection>;
+}
+
+export interface ExamSessionEvents {
+  'transcript-delta': {
+    speaker: string;
+    text: string;
+    offsetMs: number;
+    transcripts: TranscriptEntry[];
+  };
+  'audio-chunk': {data: Uint8Array; mimeType: string};
+  interrupted: {};
+  'turn-complete': {transcripts: TranscriptEntry[]};
+  'turn-finalized': TranscriptEntry & {index: number};
+  'state-change': {state: ConnectionState};
+  closed: {code: number; reason: string; wasClean: boolean};
+  error: {error: unknown};
+}
+
+type Listener<K extends keyof ExamSessionEvents> = (
+  event: ExamSessionEvents[K],
+) => void;
+
+export interface ExamSessionOptions {
+  transport: LiveTransport;
+  systemInstruction: string;
+  /** Prebuilt examiner voice. Defaults to 'Orus'. */
+  voiceName?: string;
+  /** Spoken and transcribed language. Defaults to 'en-US'. */
+  languageCode?: string;
+  responseModalities?: Modality[];
+  extraConfig?: LiveConnectConfig;
+  /**
+   * Milliseconds since the session started on the given speaker's audio
+   * clock. Defaults to wall-clock time since `start`.
+   */
+  clock?: (speaker: string) => number;
+}
+
+/**
+ * A single examiner conversation over the Live API. Merges streamed
+ * transcriptions into speaker turns and reports everything else through
+ * typed events, leaving audio playback and UI state to the caller.
+ */
+export class ExamSession {
+  private connection: LiveConnection | null = null;
+  private connectionState: ConnectionState = 'connecting';
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Map<
+    keyof ExamSessionEvents,
+    Set<Listener<keyof ExamSessionEvents>>
+  >();
+  private entries: TranscriptEntry[] = [];
+  private finalizedCount = 0;
+  private startedAt = 0;
+
+  constructor(private readonly options: ExamSessionOptions) {}
+
+  get transcripts(): TranscriptEntry[] {
+    return this.entries.map((entry) => ({
+      ...entry,
+      deltas: [...entry.deltas],
+    }));
+  }
+
+  get state() {
+    return this.connectionState;
+  }
+
+  on<K extends keyof ExamSessionEvents>(type: K, listener: Listener<K>) {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    const listeners = this.listeners.get(type) as Set<Listener<K>>;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  private emit<K extends keyof ExamSessionEvents>(
+    type: K,
+    event: ExamSessionEvents[K],
+  ) {
+    const listeners = this.listeners.get(type) as Set<Listener<K>> | undefined;
+    listeners?.forEach((listener) => listener(event));
+  }
+
+  async start() {
+    this.startedAt = Date.now();
+    this.setState('connecting');
+    this.connection = await this.connect();
+    this.setState('live');
+  }
+
+  private connect() {
+    const {
+      transport,
+      systemInstruction,
+      voiceName = 'Orus',
+      languageCode = 'en-US',
+      responseModalities = [Modality.AUDIO],
+      extraConfig = {},
+    } = this.options;
+
+    let connection: LiveConnection | null = null;
+    return transport
+      .connect({
+        model: LIVE_MODEL,
+        callbacks: {
+          onmessage: (message: LiveServerMessage) =>
+            this.handleMessage(message),
+          onerror: (e: ErrorEvent) => {
+            this.emit('error', {error: e});
+          },
+          onclose: (e: CloseEvent) => {
+            // Ignore late events from connections that were already replaced.
+            if (
+              connection !== this.connection &&
+              this.connectionState !== 'closed'
+            ) {
+              return;
+            }
+            this.handleClose(e);
+          },
+        },
+        config: {
+          responseModalities,
+          speechConfig: {
+            voiceConfig: {prebuiltVoiceConfig: {voiceName}},
+            languageCode,
+          },
+          inputAudioTranscription: {languageCodes: [languageCode]},
+          outputAudioTranscription: {languageCodes: [languageCode]},
+          systemInstruction,
+          ...extraConfig,
+        },
+      })
+      .then((opened) => (connection = opened));
+  }
+
+  private handleClose(e: CloseEvent) {
+    this.connection = null;
+    if (this.connectionState === 'closed') {
+      this.emit('closed', {
+        code: e.code,
+        reason: e.reason,
+        wasClean: e.wasClean,
+      });
+      return;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempt >= RECONNECT_DELAYS_MS.length) {
+      this.setState('failed');
+      this.emit('closed', {
+        code: 1006,
+        reason: 'Reconnection failed',
+        wasClean: false,
+      });
+      return;
+    }
+
+    this.setState('reconnecting');
+    const delay = RECONNECT_DELAYS_MS[this.reconnectAttempt++];
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
+  }
+
+  private async reconnect() {
+    this.reconnectTimer = null;
+    let connection: LiveConnection;
+    try {
+      connection = await this.connect();
+    } catch (e) {
+      console.error('Reconnection attempt failed:', e);
+      this.scheduleReconnect();
+      return;
+    }
+
+    // The session may have been closed while we were connecting.
+    if (this.connectionState === 'closed') {
+      connection.close();
+      return;
+    }
+
+    this.connection = connection;
+    this.reconnectAttempt = 0;
+    this.reprime();
+    this.setState('live');
+  }
+
+  /**
+   * Gives a fresh connection the conversation so far, so the examiner carries
+   * on where it left off instead of starting the test again.
+   */
+  private reprime() {
+    if (this.entries.length === 0) return;
+
+    const dialogue = this.entries
+      .map(({speaker, text}) => `${speaker}: ${text}`)
+      .join('\n');
+    this.connection?.sendClientContent({
+      turns: `The connection to the candidate was briefly lost. This is the transcript of the test so far:
+${dialogue}
+Continue the test from exactly where it stopped. Do not greet the candidate again or repeat questions that were already answered.`,
+      turnComplete: true,
+    });
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.connectionState === state) return;
+    this.connectionState = state;
+    this.emit('state-change', {state});
+  }
+
+  /**
+   * Passes a stage direction to the examiner. Unless `turnComplete` is set,
+   * the examiner acts on it at its next turn rather than cutting in now.
+   */
+  sendInstruction(text: string, turnComplete = false) {
+    this.connection?.sendClientContent({turns: text, turnComplete});
+  }
+
+  /** Streams one block of 16 kHz microphone samples to the examiner. */
+  sendAudio(pcm: Float32Array) {
+    this.connection?.sendRealtimeInput({media: createBlob(pcm)});
+  }
+
+  /** Closes the connection and finalizes the turn that was in progress. */
+  close() {
+    this.finalizeTurns(this.entries.length);
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.setState('closed');
+    const connection = this.connection;
+    this.connection = null;
+    if (!connection) return;
+    try {
+      connection.close();
+    } catch (e) {
+      console.error('Ignoring error during session.close():', e);
+    }
+  }
+
+  private handleMessage(message: LiveServerMessage) {
+    const serverContent = message.serverContent;
+    if (!serverContent) return;
+
+    const audio = serverContent.modelTurn?.parts?.[0]?.inlineData;
+    if (audio?.data) {
+      this.emit('audio-chunk', {
+        data: decode(audio.data),
+        mimeType: audio.mimeType ?? 'audio/pcm;rate=24000',
+      });
+    }
+
+    if (serverContent.inputTranscription?.text) {
+      this.appendTranscript('Candidate', serverContent.inputTranscription.text);
+    }
+
+    if (serverContent.outputTranscription?.text) {
+      this.appendTranscript('Examiner', serverContent.outputTranscription.text);
+    }
+
+    if (serverContent.interrupted) {
+      this.emit('interrupted', {});
+    }
+
+    if (serverContent.turnComplete) {
+      this.emit('turn-complete', {transcripts: this.transcripts});
+    }
+  }
+
+  private appendTranscript(speaker: string, text: string) {
+    const offsetMs =
+      this.options.clock?.(speaker) ?? Date.now() - this.startedAt;
+    const last = this.entries[this.entries.length - 1];
+    if (last?.speaker === speaker) {
+      last.text += text;
+      last.endMs = offsetMs;
+      last.deltas.push({text, offsetMs});
+    } else {
+      // A change of speaker means the previous turn will not grow any more.
+      this.finalizeTurns(this.entries.length);
+      this.entries.push({
+        speaker,
+        text,
+        startMs: offsetMs,
+        endMs: offsetMs,
+        deltas: [{text, offsetMs}],
+      });
+    }
+    this.emit('transcript-delta', {
+      speaker,
+      text,
+      offsetMs,
+      transcripts: this.transcripts,
+    });
+  }
+
+  private finalizeTurns(upTo: number) {
+    while (this.finalizedCount < upTo) {
+      const index = this.finalizedCount++;
+      this.emit('turn-finalized', {index, ...this.entries[index]});
+    }
+  }
+}
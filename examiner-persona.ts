@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Prebuilt Live API voices that suit an examiner.
+export const EXAMINER_VOICES = [
+  'Orus',
+  'Charon',
+  'Fenrir',
+  'Kore',
+  'Aoede',
+  'Leda',
+  'Puck',
+  'Zephyr',
+];
+
+export const EXAMINER_ACCENTS = [
+  {languageCode: 'en-GB', label: 'British'},
+  {languageCode: 'en-AU', label: 'Australian'},
+  {languageCode: 'en-US', label: 'American'},
+  {languageCode: 'en-IN', label: 'Indian'},
+];
+
+export const EXAMINER_PACES = ['slow', 'natural', 'brisk'] as const;
+export const EXAMINER_STRICTNESS = ['relaxed', 'standard', 'strict'] as const;
+// Seconds of silence in the Part 2 long turn before the examiner prompts the
+// candidate to continue; 0 turns prompting off.
+export const SILENCE_PROMPT_SECONDS = [0, 4, 6, 8, 10];
+
+export interface ExaminerPersona {
+  voiceName: string;
+  /** Drives the examiner's accent and the transcription language. */
+  languageCode: string;
+  pace: (typeof EXAMINER_PACES)[number];
+  strictness: (typeof EXAMINER_STRICTNESS)[number];
+  silencePromptSeconds: number;
+}
+
+export const DEFAULT_PERSONA: ExaminerPersona = {
+  voiceName: 'Orus',
+  languageCode: 'en-US',
+  pace: 'natural',
+  strictness: 'standard',
+  silencePromptSeconds: 6,
+};
+
+const PACE_INSTRUCTIONS: Record<ExaminerPersona['pace'], string> = {
+  slow: 'Speak slowly and clearly, pausing briefly between sentences.',
+  natural: 'Speak at a natural, moderate pace.',
+  brisk: 'Speak at a brisk pace, as a busy examiner would.',
+};
+
+const STRICTNESS_INSTRUCTIONS: Record<ExaminerPersona['strictness'], string> = {
+  relaxed:
+    'Let the candidate finish their answers even when they run long, and give them time to think before moving on.',
+  standard:
+    'If an answer goes on for well over a minute, politely interrupt with "Thank you" and move on to the next question.',
+  strict:
+    'Keep strictly to time as a real examiner does: once an answer has made its point or passes about 30 seconds, interrupt with "Thank you" and move on. Do not repeat or rephrase a question more than once.',
+};
+
+/** Fills in defaults for anything missing from a stored persona. */
+export function parsePersona(stored: unknown): ExaminerPersona {
+  const persona = {...DEFAULT_PERSONA, ...(stored as object)};
+  return {
+    voiceName: EXAMINER_VOICES.includes(persona.voiceName)
+      ? persona.voiceName
+      : DEFAULT_PERSONA.voiceName,
+    languageCode: EXAMINER_ACCENTS.some(
+      ({languageCode}) => languageCode === persona.languageCode,
+    )
+      ? persona.languageCode
+      : DEFAULT_PERSONA.languageCode,
+    pace: EXAMINER_PACES.includes(persona.pace)
+      ? persona.pace
+      : DEFAULT_PERSONA.pace,
+    strictness: EXAMINER_STRICTNESS.includes(persona.strictness)
+      ? persona.strictness
+      : DEFAULT_PERSONA.strictness,
+    silencePromptSeconds: SILENCE_PROMPT_SECONDS.includes(
+      Number(persona.silencePromptSeconds),
+    )
+      ? Number(persona.silencePromptSeconds)
+      : DEFAULT_PERSONA.silencePromptSeconds,
+  };
+}
+
+/** Appends the persona's accent, pace and strictness to a part's prompt. */
+export function applyPersona(
+  systemInstruction: string,
+  persona: ExaminerPersona,
+): string {
+  const accent = EXAMINER_ACCENTS.find(
+    ({languageCode}) => languageCode === persona.languageCode,
+  )!.label;
+  return `${systemInstruction}
+
+Examiner style:
+- Speak with a ${accent} English accent and use ${accent} spelling and vocabulary.
+- ${PACE_INSTRUCTIONS[persona.pace]}
+- ${STRICTNESS_INSTRUCTIONS[persona.strictness]} This does not apply while you have been told to listen silently.`;
+}
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {CandidateTurnAudio} from './pronunciation';
+
+const INPUT_SAMPLE_RATE = 16000;
+const FRAME_SAMPLES = 320; // 20 ms
+// Silences shorter than this are part of normal articulation.
+const MIN_PAUSE_SECONDS = 0.25;
+const MIN_SPEECH_RMS = 0.01;
+
+const FILLERS = new Set(['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'ah', 'hmm']);
+// "like" is only a filler when it does not follow a word that makes it a verb
+// or a preposition ("I like", "would like", "looks like").
+const LIKE_NON_FILLER_PREVIOUS = new Set([
+  'i',
+  'you',
+  'we',
+  'they',
+  'would',
+  "i'd",
+  "don't",
+  "didn't",
+  'really',
+  'also',
+  'to',
+  'feel',
+  'feels',
+  'look',
+  'looks',
+  'looked',
+  'sound',
+  'sounds',
+  'just',
+  'things',
+  'something',
+]);
+const SELF_CORRECTION_MARKERS = [/\bi mean\b/g, /\bsorry\b/g, /\bor rather\b/g];
+
+export interface FluencyMetrics {
+  wordsPerMinute: number;
+  meanLengthOfRun: number;
+  silentPauses: number;
+  silentPauseSeconds: number;
+  filledPauses: number;
+  selfCorrections: number;
+  repetitions: number;
+  speakingSeconds: number;
+}
+
+function frameEnergies(samples: Float32Array): number[] {
+  const energies: number[] = [];
+  for (let start = 0; start < samples.length; start += FRAME_SAMPLES) {
+    const end = Math.min(start + FRAME_SAMPLES, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies.push(Math.sqrt(sum / (end - start)));
+  }
+  return energies;
+}
+
+/**
+ * Splits a clip into voiced and silent frames. The threshold adapts to the
+ * clip's noise floor so a noisy room does not read as continuous speech.
+ */
+function voicedFrames(samples: Float32Array): boolean[] {
+  const energies = frameEnergies(samples);
+  const sorted = [...energies].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  const threshold = Math.max(MIN_SPEECH_RMS, noiseFloor * 2.5);
+  return energies.map((energy) => energy > threshold);
+}
+
+/**
+ * Pauses inside the candidate's speech. Silence before the first and after
+ * the last voiced frame is the examiner's turn or response latency, not a
+ * pause.
+ */
+function measurePauses(samples: Float32Array) {
+  const voiced = voicedFrames(samples);
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  const frameSeconds = FRAME_SAMPLES / INPUT_SAMPLE_RATE;
+  if (first === -1) {
+    return {speakingSeconds: 0, pauses: [] as number[]};
+  }
+
+  const pauses: number[] = [];
+  let silentFrames = 0;
+  for (let i = first; i <= last; i++) {
+    if (voiced[i]) {
+      if (silentFrames * frameSeconds >= MIN_PAUSE_SECONDS) {
+        pauses.push(silentFrames * frameSeconds);
+      }
+      silentFrames = 0;
+    } else {
+      silentFrames++;
+    }
+  }
+  return {speakingSeconds: (last - first + 1) * frameSeconds, pauses};
+}
+
+function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}'-]/gu, ''))
+    .filter(Boolean);
+}
+
+function countFilledPauses(words: string[]) {
+  return words.filter(
+    (word, i) =>
+      FILLERS.has(word) ||
+      (word === 'like' && i > 0 && !LIKE_NON_FILLER_PREVIOUS.has(words[i - 1])),
+  ).length;
+}
+
+function countSelfCorrections(text: string, words: string[]) {
+  const lower = text.toLowerCase();
+  const markers = SELF_CORRECTION_MARKERS.reduce(
+    (sum, pattern) => sum + (lower.match(pattern)?.length ?? 0),
+    0,
+  );
+  // Cut-off words such as "we go- we went" are transcribed with a hyphen.
+  const truncations = words.filter((word) => word.endsWith('-')).length;
+  return markers + truncations;
+}
+
+/** Immediate repeats of a word or a two-word phrase ("I I", "I think I think"). */
+function countRepetitions(words: string[]) {
+  let repetitions = 0;
+  for (let i = 1; i < words.length; i++) {
+    if (words[i] === words[i - 1] && !FILLERS.has(words[i])) {
+      repetitions++;
+    } else if (
+      i >= 3 &&
+      words[i] === words[i - 2] &&
+      words[i - 1] === words[i - 3]
+    ) {
+      repetitions++;
+    }
+  }
+  return repetitions;
+}
+
+export function computeFluencyMetrics(
+  turns: CandidateTurnAudio[],
+): FluencyMetrics {
+  let words = 0;
+  let filledPauses = 0;
+  let selfCorrections = 0;
+  let repetitions = 0;
+  let speakingSeconds = 0;
+  let runs = 0;
+  const pauses: number[] = [];
+
+  for (const turn of turns) {
+    const tokens = tokenize(turn.text);
+    const spoken = tokens.filter((word) => !FILLERS.has(word));
+    words += spoken.length;
+    filledPauses += countFilledPauses(tokens);
+    selfCorrections += countSelfCorrections(turn.text, tokens);
+    repetitions += countRepetitions(tokens);
+
+    const measured = measurePauses(turn.samples);
+    speakingSeconds += measured.speakingSeconds;
+    pauses.push(...measured.pauses);
+    if (spoken.length > 0) {
+      runs += measured.pauses.length + 1;
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    wordsPerMinute:
+      speakingSeconds > 0 ? Math.round((words / speakingSeconds) * 60) : 0,
+    meanLengthOfRun: runs > 0 ? round(words / runs) : 0,
+    silentPauses: pauses.length,
+    silentPauseSeconds: round(pauses.reduce((sum, p) => sum + p, 0)),
+    filledPauses,
+    selfCorrections,
+    repetitions,
+    speakingSeconds: round(speakingSeconds),
+  };
+}
+
+export interface TurnTiming {
+  /** Mean gap between the end of an answer and the examiner's next turn. */
+  examinerLatencyMs: number | null;
+  /** Mean gap between the end of a question and the candidate's answer. */
+  candidateLatencyMs: number | null;
+}
+
+export function computeTurnTiming(
+  turns: Array<{speaker: string; startMs: number; endMs: number}>,
+): TurnTiming {
+  const gaps: Record<string, number[]> = {Examiner: [], Candidate: []};
+  for (let i = 1; i < turns.length; i++) {
+    const previous = turns[i - 1];
+    const turn = turns[i];
+    if (turn.speaker !== previous.speaker && gaps[turn.speaker]) {
+      gaps[turn.speaker].push(Math.max(0, turn.startMs - previous.endMs));
+    }
+  }
+
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+      : null;
+  return {
+    examinerLatencyMs: mean(gaps.Examiner),
+    candidateLatencyMs: mean(gaps.Candidate),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Schema, Type} from '@google/genai';
+
+export type GrammarCategory =
+  'tense' | 'article' | 'agreement' | 'wordOrder' | 'preposition';
+
+export const GRAMMAR_CATEGORIES: Array<{key: GrammarCategory; label: string}> =
+  [
+    {key: 'tense', label: 'Tense'},
+    {key: 'article', label: 'Article'},
+    {key: 'agreement', label: 'Agreement'},
+    {key: 'wordOrder', label: 'Word order'},
+    {key: 'preposition', label: 'Preposition'},
+  ];
+
+export interface GrammarError {
+  turnIndex: number;
+  /** The erroneous words, copied verbatim from the transcript line. */
+  span: string;
+  category: GrammarCategory;
+  correction: string;
+}
+
+export interface GrammarAnnotations {
+  errors: GrammarError[];
+  counts: Record<GrammarCategory, number>;
+  /** How many candidate lines were checked. */
+  lineCount: number;
+}
+
+export const GRAMMAR_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    errors: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          turnIndex: {type: Type.INTEGER},
+          span: {type: Type.STRING},
+          category: {
+            type: Type.STRING,
+            enum: GRAMMAR_CATEGORIES.map(({key}) => key),
+          },
+          correction: {type: Type.STRING},
+        },
+        required: ['turnIndex', 'span', 'category', 'correction'],
+        propertyOrdering: ['turnIndex', 'span', 'category', 'correction'],
+      },
+    },
+  },
+  required: ['errors'],
+};
+
+export function buildGrammarRequest(
+  lines: Array<{turnIndex: number; text: string}>,
+): string {
+  return `You are an IELTS speaking examiner checking the grammar of a candidate's spoken answers. Each line below is an automatic transcript of one answer, prefixed with its turn index.
+List every clear grammatical error in these categories only: tense, article, agreement (subject-verb or noun-number), wordOrder and preposition.
+For each error give the turn index, the shortest span containing the error copied exactly as it appears in that line, the category, and the corrected version of the span.
+Ignore fillers, false starts, self-corrections and punctuation, which are normal in speech and come from the transcription.
+${lines.map(({turnIndex, text}) => `Turn ${turnIndex}: ${text}`).join('\n')}`;
+}
+
+/**
+ * Validates the model output against `GRAMMAR_SCHEMA` and counts the errors
+ * per category. Errors whose span cannot be found in its line are dropped,
+ * since they cannot be underlined.
+ */
+export function parseGrammarAnnotations(
+  text: string,
+  lines: Array<{turnIndex: number; text: string}>,
+): GrammarAnnotations {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw?.errors)) {
+    throw new Error('Grammar annotations are missing errors.');
+  }
+
+  const lineText = new Map(lines.map((line) => [line.turnIndex, line.text]));
+  const errors: GrammarError[] = raw.errors
+    .map((error: Partial<GrammarError>) => {
+      if (
+        !Number.isInteger(error?.turnIndex) ||
+        typeof error.span !== 'string' ||
+        typeof error.correction !== 'string' ||
+        !GRAMMAR_CATEGORIES.some(({key}) => key === error.category)
+      ) {
+        throw new Error('Invalid grammar error.');
+      }
+      return {
+        turnIndex: error.turnIndex!,
+        span: error.span.trim(),
+        category: error.category!,
+        correction: error.correction.trim(),
+      };
+    })
+    .filter(
+      ({turnIndex, span}) => span && lineText.get(turnIndex)?.includes(span),
+    );
+
+  return {errors, counts: countGrammarErrors(errors), lineCount: lines.length};
+}
+
+export function countGrammarErrors(
+  errors: GrammarError[],
+): Record<GrammarCategory, number> {
+  const counts = Object.fromEntries(
+    GRAMMAR_CATEGORIES.map(({key}) => [key, 0]),
+  ) as Record<GrammarCategory, number>;
+  for (const {category} of errors) {
+    counts[category]++;
+  }
+  return counts;
+}
+
+/** Describes the error counts for the Grammatical Range & Accuracy band. */
+export function grammarObservations(
+  annotations: GrammarAnnotations | undefined,
+): string[] {
+  if (!annotations || annotations.lineCount === 0) return [];
+  const found = GRAMMAR_CATEGORIES.filter(
+    ({key}) => annotations.counts[key] > 0,
+  ).map(({key, label}) => `${label.toLowerCase()} ${annotations.counts[key]}`);
+  return [
+    `An automatic grammar check of ${annotations.lineCount} candidate answers found ${annotations.errors.length} errors${found.length ? ` (${found.join(', ')})` : ''}. Weigh these counts, relative to the length of the answers, in the Grammatical Range & Accuracy band.`,
+  ];
+}
+
+/** Errors for one transcript line. */
+export function errorsForTurn(
+  annotations: GrammarAnnotations | undefined,
+  turnIndex: number,
+): GrammarError[] {
+  return (
+    annotations?.errors.filter((error) => error.turnIndex === turnIndex) ?? []
+  );
+}
+
+export function grammarCategoryLabel(category: GrammarCategory) {
+  return GRAMMAR_CATEGORIES.find(({key}) => key === category)!.label;
+}
@@ -4,26 +4,139 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {
-  GoogleGenAI,
-  LiveServerMessage,
-  Modality,
-  Session,
-  Type,
-} from '@google/genai';
+import {GoogleGenAI, LiveConnectConfig, Modality} from '@google/genai';
 import {LitElement, css, html, PropertyValues} from 'lit';
 import {customElement, state} from 'lit/decorators.js';
-import {createBlob, decode, decodeAudioData} from './utils';
+import {AudioPlayback} from './audio-playback';
+import {
+  BAND_CRITERIA,
+  BAND_REPORT_SCHEMA,
+  BandReport,
+  buildBandReportPrompt,
+  parseBandReport,
+} from './band-report';
+import {
+  CUE_CARD_CATEGORIES,
+  CueCard,
+  CueCardSelection,
+  selectCueCard,
+} from './cue-cards';
+import {ConnectionState, ExamSession} from './exam-session';
+import {MockLiveTransport} from './mock-live';
+import {
+  DEFAULT_PERSONA,
+  EXAMINER_ACCENTS,
+  EXAMINER_PACES,
+  EXAMINER_STRICTNESS,
+  EXAMINER_VOICES,
+  ExaminerPersona,
+  SILENCE_PROMPT_SECONDS,
+  applyPersona,
+  parsePersona,
+} from './examiner-persona';
+import {
+  GRAMMAR_CATEGORIES,
+  GRAMMAR_SCHEMA,
+  GrammarAnnotations,
+  GrammarError,
+  buildGrammarRequest,
+  errorsForTurn,
+  grammarCategoryLabel,
+  grammarObservations,
+  parseGrammarAnnotations,
+} from './grammar';
+import {
+  FluencyMetrics,
+  computeFluencyMetrics,
+  computeTurnTiming,
+} from './fluency-metrics';
+import {
+  MODEL_ANSWER_ASPECTS,
+  ModelAnswer,
+  answerPairs,
+  buildModelAnswerPrompt,
+  modelAnswerAspectLabel,
+  modelAnswerSchema,
+  parseModelAnswers,
+} from './model-answer';
+import {
+  CandidateAudioCapture,
+  CandidateTurnAudio,
+  PRONUNCIATION_SCHEMA,
+  PronunciationAssessment,
+  buildPronunciationRequest,
+  issuesForTurn,
+  parsePronunciationAssessment,
+  speechRateWpm,
+} from './pronunciation';
+import {
+  LONG_TURN_MIN_SECONDS,
+  LongTurn,
+  NOTES_COMPARISON_SCHEMA,
+  NotesComparison,
+  Part2Notes,
+  SilenceDetector,
+  buildNotesComparisonRequest,
+  longTurnObservations,
+  parseNotesComparison,
+} from './long-turn';
+import {
+  buildPart1Instruction,
+  buildPart3Instruction,
+  findPart3Questions,
+  findPart3QuestionsByTheme,
+  pickPart1Topics,
+} from './question-bank';
 import './visual-3d';
+import {AuthSession, repository, supabaseFeatures} from './repository';
 import {supabase} from './supabase-client';
-import type {Session as SupabaseSession} from '@supabase/supabase-js';
+import {TranscriptStore} from './transcript-store';
+import {StudyDrill, computeSessionSignals, drillPart} from './study-plan';
+import {
+  HistoryFilters,
+  HistoryMessage,
+  NO_HISTORY_FILTERS,
+  SessionSummary,
+  SharedReport,
+  createShareLink,
+  fetchSharedReport,
+} from './sessions';
+import {SessionRecorder, SessionRecording} from './session-recorder';
+import {
+  addSuggestions,
+  fetchNotebook,
+  findUsedWords,
+  markActivated,
+} from './vocabulary';
+import './session-player';
+import './note-pad';
+import './admin-console';
+import './progress-dashboard';
+import './study-plan-view';
+import './vocabulary-notebook';
+import type {GdmSessionPlayer} from './session-player';
+import {decode, encode, splitSpans} from './utils';
 
 const PART1_INSTRUCTION = `You are an IELTS examiner conducting Part 1 of the speaking test.
 Ask the candidate around 11-12 questions on 3 different general topics.
 Keep your questions concise. The user is the candidate.
 Start the conversation by asking your first question now.`;
 
-const PART2_INSTRUCTION = `You are an IELTS examiner for Part 2 of the speaking test. The candidate will now speak for 1-2 minutes. Your task is to listen silently without speaking or interrupting.`;
+const PART2_INSTRUCTION = `You are an IELTS examiner for Part 2 of the speaking test. The candidate will now speak for 1-2 minutes. Your task is to listen silently without speaking or interrupting. When the test system tells you that the time is up, follow its instructions.`;
+
+const PART2_CLOSING_LINE = 'Thank you. Can I have the booklet back, please?';
+
+// Sent when the long turn reaches 2:00; the examiner has been silent until now.
+const PART2_ROUND_OFF_NUDGE = `[Note from the test system, not the candidate] The candidate's two minutes are up. Say "Thank you." straight away to stop them, even if they are mid-sentence.
+Then ask one or two short rounding-off questions, one at a time, that follow directly from something the candidate said in their talk. Each question should need only a one or two sentence answer. Do not comment on or evaluate their talk.
+After they have answered the last question, say exactly "${PART2_CLOSING_LINE}" and nothing else.`;
+
+// The rounding-off exchange is ended regardless after this long.
+const PART2_ROUND_OFF_MAX_MS = 75000;
+
+const PART2_CONTINUE_NUDGE = `[Note from the test system, not the candidate] The candidate has stopped talking. Say exactly "Can you tell me more?" and nothing else, then go back to listening silently.`;
+// After this many prompts a further silence ends the long turn.
+const PART2_MAX_PROMPTS = 2;
 
 const PART3_INSTRUCTION_TEMPLATE = (topic: string) =>
   `You are an IELTS examiner conducting Part 3 of the speaking test.
@@ -35,6 +148,69 @@ After the candidate responds, listen carefully and then ask a relevant follow-up
 The goal is to simulate a real two-way discussion for 4-5 minutes.
 Start the conversation now by asking your first question.`;
 
+// Parts 1 and 3 each last 4-5 minutes. The examiner is told to start wrapping
+// up at the first mark and to close the part at the second. Part 2 keeps its
+// own 1 minute preparation and 2 minute long-turn timers.
+const PART_WRAP_UP_SECONDS = 4 * 60;
+const PART_TARGET_SECONDS = 5 * 60;
+// How long the examiner gets to deliver the closing line before the part is
+// ended regardless.
+const PART_CLOSING_GRACE_MS = 30000;
+
+const PART_CLOSING_LINES = {
+  part1: "Thank you. That's the end of Part 1.",
+  part3: 'Thank you. That is the end of the speaking test.',
+};
+
+const PART_WRAP_UP_NUDGE = `[Timing note from the test system, not the candidate] About four minutes of this part have passed. Do not start a new topic. Ask at most one more short question on the current topic.`;
+
+const PART_CLOSING_NUDGE = (closingLine: string) =>
+  `[Timing note from the test system, not the candidate] Time is up for this part. As soon as the candidate finishes their current sentence, say exactly "${closingLine}" and nothing else.`;
+
+/** Whether the text contains the line, ignoring case and punctuation. */
+function saysLine(text: string, line: string) {
+  const words = (value: string) =>
+    value
+      .toLowerCase()
+      .match(/[a-z0-9']+/g)
+      ?.join(' ') ?? '';
+  return words(text).includes(words(line));
+}
+
+const FULL_TEST_TRANSITION_MS = 4000;
+// How long the examiner gets to say a transition line before the test moves
+// on regardless.
+const FULL_TEST_TRANSITION_MAX_MS = 20000;
+
+const FULL_TEST_PART1_INTRO = `This is the beginning of a full speaking test. Before your first question, briefly greet the candidate, introduce yourself as their examiner and ask for their full name.`;
+
+const FULL_TEST_PART3_INTRO = (topic: string) =>
+  `This follows directly on from Part 2 of a full speaking test. Before your first question, say: "We've been talking about ${topic}, and I'd like to discuss with you one or two more general questions related to this."`;
+
+const FULL_TEST_TRANSITIONS = {
+  part1:
+    "Thank you. That's the end of Part 1. Now, I'm going to give you a topic and I'd like you to talk about it for one to two minutes. You have one minute to think about what you're going to say.",
+  part2: "Thank you. We'll now move on to Part 3.",
+  part3: "Thank you. That is the end of the speaking test.",
+};
+
+const FULL_TEST_TRANSITION_NUDGE = (line: string) =>
+  `[Note from the test system, not the candidate] This part of the test is over. Say exactly "${line}" and nothing else.`;
+
+// Saved as the feedback of sessions with nothing to assess, so that they stop
+// counting as sessions missing feedback.
+const NO_SPEECH_FEEDBACK =
+  'There was no candidate speech to assess in this session.';
+
+type View =
+  | 'app'
+  | 'pricing'
+  | 'admin'
+  | 'session'
+  | 'dashboard'
+  | 'study-plan'
+  | 'vocabulary';
+
 @customElement('gdm-live-audio')
 export class GdmLiveAudio extends LitElement {
   @state() isRecording = false;
@@ -42,18 +218,52 @@ export class GdmLiveAudio extends LitElement {
     speaker: string;
     text: string;
   }> = [];
-  @state() private supabaseSession: SupabaseSession | null = null;
+  @state() private supabaseSession: AuthSession | null = null;
   @state() private currentSessionId: string | null = null;
+  private sessionStartedAt = 0;
   @state() private isHistoryPanelOpen = false;
   @state() private isProfileMenuOpen = false;
-  @state() private chatHistory: Record<
+  // Transcripts are only loaded for sessions that have been opened.
+  @state() private chatHistory: Record<string, HistoryMessage[]> = {};
+  @state() private sessionFeedback: Record<
+    string,
+    {feedback: string; report: BandReport | null}
+  > = {};
+  @state() private sessionPronunciation: Record<
+    string,
+    PronunciationAssessment
+  > = {};
+  @state() private sessionGrammar: Record<string, GrammarAnnotations> = {};
+  // Storage paths of recorded sessions and signed URLs for the ones opened.
+  @state() private sessionRecordingPaths: Record<string, string> = {};
+  @state() private recordingUrls: Record<string, string> = {};
+  @state() private playbackPositionsMs: Record<string, number> = {};
+  @state() private sessionMetrics: Record<
     string,
-    Array<{speaker: string; text: string; created_at: string}>
+    {metrics: FluencyMetrics; created_at: string}
   > = {};
-  @state() private sessionFeedback: Record<string, string> = {};
+  @state() private sessionSummaries: Record<string, SessionSummary> = {};
+  // The pages of history loaded so far, newest first.
+  @state() private historySessionIds: string[] = [];
+  @state() private historyFilters: HistoryFilters = NO_HISTORY_FILTERS;
+  @state() private historyPage = 0;
+  @state() private hasMoreHistory = false;
+  @state() private isHistoryLoading = false;
+  @state() private expandedSessionIds: Record<string, boolean> = {};
 
   // View management
-  @state() private currentView: 'app' | 'pricing' = 'app';
+  @state() private currentView: View = 'app';
+  // Hash routes: #/session/<id> opens one of the user's sessions and
+  // #/report/<token> shows a shared report without signing in.
+  @state() private detailSessionId: string | null = null;
+  @state() private shareToken: string | null = null;
+  @state() private sharedReport: SharedReport | null = null;
+  @state() private sharedReportError: string | null = null;
+  @state() private shareLinks: Record<string, {url: string; expiresAt: Date}> =
+    {};
+  @state() private isAdmin = false;
+  @state() private examinerPersona: ExaminerPersona = DEFAULT_PERSONA;
+  @state() private isPersonaModalOpen = false;
   @state() private isTermsModalOpen = false;
   @state() private isPrivacyModalOpen = false;
 
@@ -70,16 +280,76 @@ export class GdmLiveAudio extends LitElement {
     | 'fetching'
     | 'preparing'
     | 'speaking'
+    | 'rounding-off'
     | 'finished' = 'idle';
   @state() private part2CueCard: {
     description: string;
     points: string[];
   } | null = null;
+  private part2SourceCard: CueCard | null = null;
+  // Band 8 answers to the questions of the Part 2 or 3 session just finished.
+  @state() private modelAnswers: ModelAnswer[] | null = null;
+  @state() private isModelAnswerLoading = false;
+  @state() private modelAnswerError: string | null = null;
+  @state() private playingModelAnswer: number | null = null;
+  private modelAnswerAudio = new Map<number, Uint8Array>();
+  private modelAnswerPlaybackTimeout: number | null = null;
+  @state() private cueCardSelection: CueCardSelection = {};
+  @state() private cueCardOptions: CueCard[] = [];
   @state() private part2Topic: string | null = null;
   @state() private part2TopicForPart3: string | null = null; // Persists topic for Part 3
+  private part3SourceCard: CueCard | null = null;
+  // Set when a study plan drill starts Part 3 on a theme rather than after
+  // Part 2.
+  private part3DrillTheme: string | null = null;
   @state() private part2PreparationTimeLeft = 60;
   @state() private part2SpeakingTimeLeft = 120;
   private part2TimerInterval: number | null = null;
+  private part2RoundOffTimeout: number | null = null;
+  private silenceDetector = new SilenceDetector();
+  private part2Prompts = 0;
+  // The examiner is unmuted while it asks the candidate to continue.
+  private isPart2Prompting = false;
+  private isAwaitingPart2Speech = false;
+  @state() private showShortLongTurnWarning = false;
+  private part2LongTurn: LongTurn | null = null;
+  @state() private sessionLongTurns: Record<string, LongTurn> = {};
+  private part2Notes: Promise<Part2Notes> | null = null;
+  @state() private sessionNotes: Record<
+    string,
+    {
+      text: string;
+      sketchPath: string | null;
+      comparison: NotesComparison | null;
+    }
+  > = {};
+  @state() private sketchUrls: Record<string, string> = {};
+
+  // Session clock for Parts 1 and 3
+  @state() private partElapsedSeconds = 0;
+  private partClockInterval: number | null = null;
+  private partClosingTimeout: number | null = null;
+  private partClockPhase: 'running' | 'wrapping-up' | 'closing' = 'running';
+  // The line the examiner was asked to close with, and how many turns the
+  // session had then, so the answer under way at the time is not taken for it.
+  private partClosingLine = '';
+  private partClosingTurnCount = 0;
+  // Feedback runs one at a time; a request during a run starts another after.
+  private isProcessingFeedback = false;
+  private isFeedbackRequested = false;
+
+  // Full mock test state
+  @state() private isFullTest = false;
+  private currentExamId: string | null = null;
+  // The finished parts of the test on screen, shown above the current part.
+  @state() private fullTestTranscripts: Array<{
+    speaker: string;
+    text: string;
+  }> = [];
+  @state() private sessionExamParts: Record<
+    string,
+    {examId: string; part: 'part1' | 'part2' | 'part3'}
+  > = {};
 
   // Intro Modal State
   @state() private isIntroModalOpen = false;
@@ -93,17 +363,30 @@ export class GdmLiveAudio extends LitElement {
   @state() private isStopConfirmModalOpen = false;
 
   private client: GoogleGenAI;
-  private session: Session;
+  private examSession: ExamSession | null = null;
+  @state() private connectionState: ConnectionState = 'closed';
+  private transcriptStore = new TranscriptStore();
+  private candidateAudio = new CandidateAudioCapture();
+  // Audio clock readings at the moment recording starts; transcript deltas
+  // are stamped relative to these so they line up with the recording.
+  private inputClockOrigin = 0;
+  private outputClockOrigin = 0;
   private inputAudioContext = new window.AudioContext({sampleRate: 16000});
   private outputAudioContext = new window.AudioContext({sampleRate: 24000});
   @state() inputNode = this.inputAudioContext.createGain();
   @state() outputNode = this.outputAudioContext.createGain();
-  private nextStartTime = 0;
   private mediaStream: MediaStream;
   private sourceNode: MediaStreamAudioSourceNode;
   private audioWorkletNode: AudioWorkletNode | null = null;
   private audioWorkletLoaded = false;
-  private sources = new Set<AudioBufferSourceNode>();
+  private audioPlayback = new AudioPlayback(
+    this.outputAudioContext,
+    this.outputNode,
+  );
+  private sessionRecorder = new SessionRecorder(
+    this.outputAudioContext,
+    this.outputNode,
+  );
 
   static styles = css`
     :host {
@@ -505,6 +788,110 @@ export class GdmLiveAudio extends LitElement {
       border-bottom-left-radius: 4px;
     }
 
+    .model-answers {
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+      margin-top: 8px;
+    }
+
+    .model-answer-button {
+      align-self: center;
+      background: none;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #e0e0e0;
+      padding: 6px 14px;
+      cursor: pointer;
+      font-size: 0.85rem;
+    }
+
+    .model-answer-button:hover {
+      background-color: #333;
+    }
+
+    .model-answer-button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .model-answer h5 .model-answer-button {
+      margin-left: 8px;
+      padding: 2px 10px;
+      font-size: 0.75rem;
+    }
+
+    .model-answer-error {
+      color: #f28b82;
+      text-align: center;
+    }
+
+    .model-answer {
+      padding: 15px;
+      background-color: #242424;
+      border: 1px solid #444;
+      border-radius: 8px;
+    }
+
+    .model-answer h4 {
+      margin: 0 0 12px 0;
+      font-weight: 500;
+    }
+
+    .model-answer h5 {
+      margin: 0 0 6px 0;
+      font-size: 0.8rem;
+      color: #aaa;
+    }
+
+    .model-answer-columns {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 16px;
+      line-height: 1.5;
+    }
+
+    .model-answer-columns p {
+      margin: 0;
+    }
+
+    .model-answer-legend {
+      display: flex;
+      justify-content: center;
+      gap: 12px;
+      font-size: 0.8rem;
+    }
+
+    .model-answer-highlight {
+      color: inherit;
+      border-radius: 3px;
+      padding: 0 2px;
+      cursor: help;
+    }
+
+    .model-answer-highlight.structure {
+      background-color: rgba(66, 133, 244, 0.35);
+    }
+
+    .model-answer-highlight.linking {
+      background-color: rgba(52, 168, 83, 0.35);
+    }
+
+    .model-answer-highlight.vocabulary {
+      background-color: rgba(251, 188, 4, 0.35);
+    }
+
+    .model-answer-notes {
+      margin: 12px 0 0 0;
+      padding-left: 18px;
+      font-size: 0.85rem;
+      color: #bbb;
+    }
+
+    .model-answer-notes li {
+      margin-bottom: 4px;
+    }
+
     .cue-card-container {
       padding: 15px;
       background-color: #242424;
@@ -557,6 +944,77 @@ export class GdmLiveAudio extends LitElement {
       color: #c0c0c0;
     }
 
+    .connection-banner {
+      position: absolute;
+      top: 15px;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 20;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      max-width: 70%;
+      padding: 10px 16px;
+      border-radius: 8px;
+      background-color: #b06000;
+      color: #fff;
+      font-size: 0.9rem;
+    }
+
+    .connection-banner.failed {
+      background-color: #b3261e;
+    }
+
+    .connection-banner button {
+      background: none;
+      border: none;
+      color: white;
+      font-size: 1.2rem;
+      cursor: pointer;
+      line-height: 1;
+    }
+
+    .full-test-status {
+      display: flex;
+      justify-content: space-between;
+      padding: 10px 20px;
+      background-color: #1a1a1a;
+      border-bottom: 1px solid #333;
+      color: #c0c0c0;
+      font-size: 0.9rem;
+      font-weight: 500;
+    }
+
+    .session-clock {
+      font-variant-numeric: tabular-nums;
+    }
+
+    .session-clock.wrapping-up {
+      color: #f59e0b;
+    }
+
+    .long-turn-warning {
+      color: #f59e0b;
+      font-size: 0.9rem;
+      text-align: center;
+      margin: 10px 0 0;
+    }
+
+    .long-turn-done {
+      display: block;
+      margin: 10px auto 0;
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #555;
+      border-radius: 6px;
+      padding: 6px 18px;
+      cursor: pointer;
+    }
+
+    .long-turn-done:hover {
+      background-color: #444;
+    }
+
     .timer {
       text-align: center;
       font-size: 1.2rem;
@@ -625,6 +1083,10 @@ export class GdmLiveAudio extends LitElement {
     }
 
     .history-session h3 {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 10px;
       margin-top: 0;
       font-size: 0.9rem;
       color: #aaa;
@@ -633,6 +1095,109 @@ export class GdmLiveAudio extends LitElement {
       margin-bottom: 10px;
     }
 
+    .history-session-toggle {
+      flex: 1;
+      background: none;
+      border: none;
+      color: inherit;
+      font: inherit;
+      text-align: left;
+      padding: 0;
+      cursor: pointer;
+    }
+
+    .history-band {
+      color: #8ab4f8;
+      white-space: nowrap;
+    }
+
+    .history-filters {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 8px;
+    }
+
+    .history-filters input,
+    .history-filters select {
+      background-color: #2a2a2a;
+      color: #e0e0e0;
+      border: 1px solid #444;
+      border-radius: 6px;
+      padding: 6px 8px;
+      font-size: 0.85rem;
+      min-width: 0;
+    }
+
+    .history-filters input[type='search'] {
+      grid-column: 1 / -1;
+    }
+
+    .history-filters label {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      font-size: 0.8rem;
+      color: #aaa;
+    }
+
+    .history-open-button,
+    .history-more-button,
+    .history-filters button,
+    .share-panel button {
+      background: none;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #e0e0e0;
+      padding: 4px 10px;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+
+    .history-open-button:hover,
+    .history-more-button:hover,
+    .history-filters button:hover,
+    .share-panel button:hover {
+      background-color: #333;
+    }
+
+    .session-detail {
+      max-width: 800px;
+      width: 90%;
+      margin: 20px auto 40px;
+      display: flex;
+      flex-direction: column;
+      gap: 16px;
+      text-align: left;
+    }
+
+    .session-summary {
+      max-width: 400px;
+    }
+
+    .share-panel {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .share-panel input {
+      flex: 1;
+      min-width: 200px;
+      background-color: #242424;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #e0e0e0;
+      padding: 6px 8px;
+    }
+
+    .share-panel p {
+      width: 100%;
+      margin: 0;
+      font-size: 0.8rem;
+      color: #aaa;
+    }
+
     .history-message {
       margin-bottom: 8px;
       padding: 8px 12px;
@@ -653,6 +1218,46 @@ export class GdmLiveAudio extends LitElement {
       align-self: flex-start;
     }
 
+    .history-message.seekable {
+      cursor: pointer;
+    }
+
+    .history-message.seekable:hover {
+      outline: 1px solid #888;
+    }
+
+    .history-message.playing {
+      outline: 2px solid #fbbc04;
+    }
+
+    .session-notes {
+      white-space: pre-wrap;
+      font-style: italic;
+    }
+
+    .session-sketch {
+      display: block;
+      width: 100%;
+      border-radius: 6px;
+      background-color: #fffef5;
+      margin-bottom: 8px;
+    }
+
+    .recording-button {
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 8px 12px;
+      margin-bottom: 12px;
+      cursor: pointer;
+      font-size: 0.85rem;
+    }
+
+    .recording-button:hover {
+      background-color: #3a3a3a;
+    }
+
     .history-message strong {
       display: block;
       font-size: 0.8rem;
@@ -687,38 +1292,166 @@ export class GdmLiveAudio extends LitElement {
       font-style: italic;
     }
 
-    .modal-overlay {
-      position: fixed;
-      top: 0;
-      left: 0;
-      width: 100vw;
-      height: 100vh;
-      background-color: rgba(0, 0, 0, 0.7);
+    .report-card {
       display: flex;
+      flex-direction: column;
+      gap: 12px;
+    }
+
+    .report-overall {
+      display: flex;
+      justify-content: space-between;
       align-items: center;
-      justify-content: center;
-      z-index: 1000;
     }
 
-    .modal-content {
-      background-color: #282828;
-      padding: 30px 40px;
-      border-radius: 12px;
-      text-align: center;
-      border: 1px solid #444;
-      box-shadow: 0 5px 20px rgba(0, 0, 0, 0.5);
-      max-width: 400px;
-      width: 90%;
+    .report-overall h4 {
+      margin: 0;
     }
 
-    .modal-content.intro-modal {
-      text-align: left;
-      max-width: 500px;
+    .report-overall .band-score {
+      font-size: 1.6rem;
     }
 
-    .intro-modal h2 {
-      text-align: center;
-      border-bottom: 1px solid #444;
+    .band-score {
+      font-weight: bold;
+      color: #4285f4;
+    }
+
+    .report-criterion {
+      padding: 10px 12px;
+      background-color: #1a1a1a;
+      border-radius: 8px;
+    }
+
+    .report-criterion-header {
+      display: flex;
+      justify-content: space-between;
+      font-size: 0.85rem;
+      font-weight: 500;
+      color: #e0e0e0;
+      margin-bottom: 6px;
+    }
+
+    .report-criterion p {
+      font-style: normal;
+    }
+
+    .report-criterion blockquote {
+      margin: 6px 0 0 0;
+      padding-left: 10px;
+      border-left: 2px solid #555;
+      font-size: 0.85rem;
+      color: #aaa;
+    }
+
+    .report-vocabulary ul {
+      margin: 0;
+      padding-left: 18px;
+      font-size: 0.9rem;
+    }
+
+    .report-vocabulary li {
+      margin-bottom: 6px;
+    }
+
+    .metrics-grid {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 4px 12px;
+      margin: 0;
+      font-size: 0.85rem;
+    }
+
+    .metrics-grid dt {
+      color: #aaa;
+    }
+
+    .metrics-grid dd {
+      margin: 0;
+      color: #e0e0e0;
+      text-align: right;
+    }
+
+    .fluency-trend svg {
+      width: 100%;
+      height: 100px;
+    }
+
+    .fluency-trend polyline {
+      fill: none;
+      stroke-width: 2;
+      vector-effect: non-scaling-stroke;
+    }
+
+    polyline.trend-wpm {
+      stroke: #4285f4;
+    }
+
+    polyline.trend-mlr {
+      stroke: #34a853;
+    }
+
+    .trend-legend {
+      display: flex;
+      gap: 16px;
+      font-size: 0.8rem;
+    }
+
+    .trend-legend span.trend-wpm {
+      color: #4285f4;
+    }
+
+    .trend-legend span.trend-mlr {
+      color: #34a853;
+    }
+
+    .pronunciation-issue {
+      background: none;
+      color: inherit;
+      text-decoration: underline wavy #fbbc04;
+      text-underline-offset: 3px;
+      cursor: help;
+    }
+
+    .grammar-error {
+      text-decoration: underline #ea4335;
+      text-decoration-thickness: 2px;
+      text-underline-offset: 3px;
+      cursor: help;
+    }
+
+    .modal-overlay {
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100vw;
+      height: 100vh;
+      background-color: rgba(0, 0, 0, 0.7);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+
+    .modal-content {
+      background-color: #282828;
+      padding: 30px 40px;
+      border-radius: 12px;
+      text-align: center;
+      border: 1px solid #444;
+      box-shadow: 0 5px 20px rgba(0, 0, 0, 0.5);
+      max-width: 400px;
+      width: 90%;
+    }
+
+    .modal-content.intro-modal {
+      text-align: left;
+      max-width: 500px;
+    }
+
+    .intro-modal h2 {
+      text-align: center;
+      border-bottom: 1px solid #444;
       padding-bottom: 15px;
       margin-bottom: 20px;
     }
@@ -748,6 +1481,37 @@ export class GdmLiveAudio extends LitElement {
       margin-left: -1em;
     }
 
+    .cue-card-picker,
+    .settings-form {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      margin-bottom: 25px;
+    }
+
+    .settings-form {
+      text-align: left;
+    }
+
+    .cue-card-picker label,
+    .settings-form label {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 0.9rem;
+      color: #bbb;
+    }
+
+    .cue-card-picker select,
+    .settings-form select {
+      background-color: #2a2a2a;
+      color: #e0e0e0;
+      border: 1px solid #444;
+      border-radius: 6px;
+      padding: 8px;
+      font-size: 0.95rem;
+    }
+
     .confirmation-container {
       display: flex;
       align-items: center;
@@ -949,21 +1713,59 @@ export class GdmLiveAudio extends LitElement {
 
   constructor() {
     super();
-    supabase.auth.getSession().then(({data: {session}}) => {
+    repository.getAuthSession().then((session) => {
       this.supabaseSession = session;
     });
 
-    supabase.auth.onAuthStateChange((_event, session) => {
+    repository.onAuthChange((session) => {
       this.supabaseSession = session;
     });
 
     window.addEventListener('beforeunload', this.handleBeforeUnload);
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('hashchange', this.handleRoute);
+    this.handleRoute();
   }
 
   private handleBeforeUnload = () => {
-    // Attempt to cleanly close the session on page unload.
-    if (this.isRecording && this.session) {
-      this.session.close();
+    // Attempt to cleanly close the session on page unload. Closing finalizes
+    // the current turn, which queues it locally for the next visit.
+    if (this.isRecording && this.examSession) {
+      this.examSession.close();
+    }
+  };
+
+  private handleOnline = () => {
+    if (this.supabaseSession) {
+      this.transcriptStore.replayPending(this.supabaseSession.user.id);
+    }
+  };
+
+  private handleRoute = () => {
+    const [, route, param] =
+      window.location.hash.match(/^#\/(session|report)\/([^/]+)$/) ?? [];
+
+    if (route === 'report') {
+      if (param !== this.shareToken) {
+        this.shareToken = param;
+        this.loadSharedReport(param);
+      }
+    } else {
+      this.shareToken = null;
+      this.sharedReport = null;
+    }
+
+    if (route === 'session') {
+      this.detailSessionId = param;
+      if (this.supabaseSession) {
+        this.loadSessionDetail(param);
+      }
+      this.endFullTest();
+      this.stopCurrentSession();
+      this.currentView = 'session';
+    } else if (this.currentView === 'session') {
+      this.detailSessionId = null;
+      this.currentView = 'app';
     }
   };
 
@@ -971,12 +1773,15 @@ export class GdmLiveAudio extends LitElement {
     super.disconnectedCallback();
     document.body.removeEventListener('click', this.handleOutsideClick);
     window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('hashchange', this.handleRoute);
     if (this.part2TimerInterval) {
       clearInterval(this.part2TimerInterval);
     }
     if (this.creditUsageInterval) {
       clearInterval(this.creditUsageInterval);
     }
+    this.stopPartClock();
   }
 
   updated(changedProperties: PropertyValues) {
@@ -991,7 +1796,7 @@ export class GdmLiveAudio extends LitElement {
 
     if (changedProperties.has('supabaseSession')) {
       const oldSession = changedProperties.get('supabaseSession') as
-        | SupabaseSession
+        | AuthSession
         | null
         | undefined;
       // User just logged in
@@ -1000,8 +1805,13 @@ export class GdmLiveAudio extends LitElement {
           this.initClient();
         }
         this.fetchUserProfile();
-        this.fetchHistory();
-        this.currentView = 'app';
+        this.transcriptStore
+          .replayPending(this.supabaseSession.user.id)
+          .then(() => this.fetchHistory());
+        if (this.detailSessionId) {
+          this.loadSessionDetail(this.detailSessionId);
+        }
+        this.currentView = this.detailSessionId ? 'session' : 'app';
       }
       // User just logged out
       else if (!this.supabaseSession && oldSession) {
@@ -1011,17 +1821,36 @@ export class GdmLiveAudio extends LitElement {
   }
 
   private cleanup() {
+    this.endFullTest();
     this.stopRecording();
-    if (this.session) {
-      this.session.close();
-    }
+    this.examSession?.close();
     this.client = null;
-    this.session = null;
+    this.examSession = null;
     this.transcripts = [];
+    this.fullTestTranscripts = [];
     this.chatHistory = {};
     this.sessionFeedback = {};
+    this.sessionExamParts = {};
+    this.sessionPronunciation = {};
+    this.sessionGrammar = {};
+    this.sessionMetrics = {};
+    this.sessionSummaries = {};
+    this.historySessionIds = [];
+    this.historyFilters = NO_HISTORY_FILTERS;
+    this.historyPage = 0;
+    this.hasMoreHistory = false;
+    this.expandedSessionIds = {};
+    this.shareLinks = {};
+    this.sessionLongTurns = {};
+    this.sessionNotes = {};
+    this.sketchUrls = {};
+    this.sessionRecordingPaths = {};
+    this.recordingUrls = {};
+    this.playbackPositionsMs = {};
     this.isHistoryPanelOpen = false;
     this.userCredits = null;
+    this.isAdmin = false;
+    this.examinerPersona = DEFAULT_PERSONA;
     this.currentView = 'app';
     if (this.creditUsageInterval) {
       clearInterval(this.creditUsageInterval);
@@ -1029,13 +1858,7 @@ export class GdmLiveAudio extends LitElement {
     }
   }
 
-  private initAudio() {
-    this.nextStartTime = this.outputAudioContext.currentTime;
-  }
-
   private async initClient() {
-    this.initAudio();
-
     this.client = new GoogleGenAI({
       apiKey: process.env.API_KEY,
     });
@@ -1069,50 +1892,39 @@ export class GdmLiveAudio extends LitElement {
     }
   }
 
-  private async saveCurrentSessionHistory() {
-    if (
-      !this.supabaseSession ||
-      !this.currentSessionId ||
-      this.transcripts.length === 0
-    ) {
+  private async processMissingFeedback() {
+    if (this.isProcessingFeedback) {
+      this.isFeedbackRequested = true;
       return;
     }
-
-    const transcriptsToSave = this.transcripts.map(({speaker, text}) => ({
-      user_id: this.supabaseSession!.user.id,
-      session_id: this.currentSessionId!,
-      speaker,
-      text,
-    }));
-
-    const {data, error} = await supabase
-      .from('transcripts')
-      .insert(transcriptsToSave)
-      .select('session_id, speaker, text, created_at');
-
-    if (error) {
-      console.error('Error saving session history:', error.message);
-    } else if (data) {
-      this.chatHistory = {
-        ...this.chatHistory,
-        [this.currentSessionId!]: data,
-      };
+    this.isProcessingFeedback = true;
+    try {
+      do {
+        this.isFeedbackRequested = false;
+        await this.assessMissingFeedback();
+      } while (this.isFeedbackRequested);
+    } finally {
+      this.isProcessingFeedback = false;
     }
   }
 
-  private async processMissingFeedback() {
+  private async assessMissingFeedback() {
     if (!this.client || !this.supabaseSession) {
       return;
     }
 
     await this.fetchHistory();
 
-    const sessionIdsWithHistory = Object.keys(this.chatHistory);
-    const sessionIdsWithFeedback = Object.keys(this.sessionFeedback);
-
-    const sessionsToProcess = sessionIdsWithHistory.filter(
-      (id) => !sessionIdsWithFeedback.includes(id),
-    );
+    let sessionsToProcess: SessionSummary[];
+    try {
+      sessionsToProcess = await repository.fetchSessionsMissingFeedback(
+        this.supabaseSession.user.id,
+        10,
+      );
+    } catch (error) {
+      console.error('Error finding sessions without feedback:', error.message);
+      return;
+    }
 
     if (sessionsToProcess.length === 0) {
       console.log('No sessions are missing feedback.');
@@ -1122,36 +1934,62 @@ export class GdmLiveAudio extends LitElement {
     console.log(
       `Found ${sessionsToProcess.length} sessions to process for feedback.`,
     );
+    // The long turn observations feed into the report.
+    await this.fetchSessionDetails(sessionsToProcess.map(({id}) => id));
 
-    for (const sessionId of sessionsToProcess) {
+    for (const {id: sessionId, part, topic} of sessionsToProcess) {
+      await this.loadSessionTranscripts(sessionId);
       const sessionTranscripts = this.chatHistory[sessionId];
-      if (!sessionTranscripts || sessionTranscripts.length === 0) {
-        continue;
-      }
+      // The transcript could not be loaded; try again next time.
+      if (!sessionTranscripts) continue;
 
-      const candidateTranscripts = sessionTranscripts
-        .filter((t) => t.speaker === 'Candidate')
-        .map((t) => t.text)
-        .join(' ');
+      const hasCandidateSpeech = sessionTranscripts.some(
+        (t) => t.speaker === 'Candidate' && t.text.trim(),
+      );
 
-      if (!candidateTranscripts.trim()) {
-        console.log(`No candidate speech to analyze for session ${sessionId}.`);
+      if (!hasCandidateSpeech) {
+        // The session in progress may still get some.
+        if (this.isRecording && sessionId === this.currentSessionId) continue;
+        try {
+          await repository.saveFeedback({
+            sessionId,
+            userId: this.supabaseSession.user.id,
+            feedback: NO_SPEECH_FEEDBACK,
+            report: null,
+            signals: null,
+          });
+          this.sessionFeedback = {
+            ...this.sessionFeedback,
+            [sessionId]: {feedback: NO_SPEECH_FEEDBACK, report: null},
+          };
+        } catch (error) {
+          console.error(
+            `Error saving feedback for session ${sessionId}:`,
+            error.message,
+          );
+        }
         continue;
       }
 
-      let feedbackText = '';
+      let report: BandReport | null = null;
       const maxRetries = 3;
 
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
-          const prompt = `Analyze the following IELTS candidate's speech. Provide one sentence of feedback that includes two relevant, relatively advanced vocabulary words the candidate could use to improve their answer with 2 usage examples.  The feedback must be a single, concise sentence directly related to their speech with properly assessed IELTS score. Here is the transcript: "${candidateTranscripts}"`;
-
           const response = await this.client.models.generateContent({
             model: 'gemini-2.5-flash',
-            contents: prompt,
+            contents: buildBandReportPrompt(sessionTranscripts, [
+              ...longTurnObservations(this.sessionLongTurns[sessionId]),
+              ...grammarObservations(this.sessionGrammar[sessionId]),
+            ]),
+            config: {
+              responseMimeType: 'application/json',
+              responseSchema: BAND_REPORT_SCHEMA,
+            },
           });
 
-          feedbackText = response.text;
+          // Responses that do not match the schema count as a failed attempt.
+          report = parseBandReport(response.text);
           break; // Success
         } catch (e) {
           console.error(
@@ -1168,228 +2006,446 @@ export class GdmLiveAudio extends LitElement {
         }
       }
 
-      if (!feedbackText) {
+      if (!report) {
         continue;
       }
 
       try {
-        const {error} = await supabase.from('session_feedback').insert({
-          session_id: sessionId,
-          user_id: this.supabaseSession.user.id,
-          feedback: feedbackText,
+        await repository.saveFeedback({
+          sessionId,
+          userId: this.supabaseSession.user.id,
+          feedback: report.summary,
+          report,
+          signals: computeSessionSignals(part, sessionTranscripts),
         });
-
-        if (error) {
-          console.error(
-            `Error saving feedback for session ${sessionId}:`,
-            error.message,
-          );
-        } else {
-          console.log(
-            `Successfully generated and saved feedback for session ${sessionId}.`,
-          );
-          this.sessionFeedback = {
-            ...this.sessionFeedback,
-            [sessionId]: feedbackText,
-          };
-        }
-      } catch (e) {
+      } catch (error) {
         console.error(
-          `Error saving feedback to DB for session ${sessionId}:`,
-          e,
+          `Error saving feedback for session ${sessionId}:`,
+          error.message,
+        );
+        continue;
+      }
+
+      console.log(
+        `Successfully generated and saved feedback for session ${sessionId}.`,
+      );
+      this.sessionFeedback = {
+        ...this.sessionFeedback,
+        [sessionId]: {feedback: report.summary, report},
+      };
+      try {
+        await repository.setSessionBand(sessionId, report.overallBand);
+      } catch (error) {
+        console.error('Error saving session band:', error.message);
+      }
+      if (this.sessionSummaries[sessionId]) {
+        this.sessionSummaries = {
+          ...this.sessionSummaries,
+          [sessionId]: {
+            ...this.sessionSummaries[sessionId],
+            overallBand: report.overallBand,
+          },
+        };
+      }
+      if (!supabaseFeatures) continue;
+      try {
+        await addSuggestions(
+          this.supabaseSession.user.id,
+          sessionId,
+          topic,
+          report.vocabulary ?? [],
         );
+      } catch (e) {
+        console.error(`Error adding vocabulary for session ${sessionId}:`, e);
       }
     }
   }
 
-  private async fetchHistory() {
+  private async fetchHistory(page = 0) {
     if (!this.supabaseSession) return;
 
-    const {data, error} = await supabase
-      .from('transcripts')
-      .select('session_id, speaker, text, created_at')
-      .eq('user_id', this.supabaseSession.user.id)
-      .order('created_at', {ascending: true});
-
-    if (error) {
+    this.isHistoryLoading = true;
+    try {
+      const {sessions, hasMore} = await repository.fetchSessionPage(
+        this.supabaseSession.user.id,
+        this.historyFilters,
+        page,
+      );
+      const sessionIds = sessions.map(({id}) => id);
+      this.sessionSummaries = {
+        ...this.sessionSummaries,
+        ...Object.fromEntries(sessions.map((summary) => [summary.id, summary])),
+      };
+      this.historySessionIds =
+        page === 0 ? sessionIds : [...this.historySessionIds, ...sessionIds];
+      this.historyPage = page;
+      this.hasMoreHistory = hasMore;
+      await this.fetchSessionDetails(sessionIds);
+    } catch (error) {
       console.error('Error fetching history:', error.message);
-      return;
     }
+    this.isHistoryLoading = false;
+  }
 
-    if (data) {
-      const groupedHistory = data.reduce((acc, item) => {
-        const {session_id} = item;
-        if (!acc[session_id]) {
-          acc[session_id] = [];
-        }
-        acc[session_id].push(item);
-        return acc;
-      }, {});
-      this.chatHistory = groupedHistory;
+  /** Loads the assessments saved alongside each of the given sessions. */
+  private async fetchSessionDetails(sessionIds: string[]) {
+    if (!this.supabaseSession || sessionIds.length === 0) return;
+
+    try {
+      const feedback = await repository.fetchFeedback(sessionIds);
+      this.sessionFeedback = {...this.sessionFeedback, ...feedback};
+    } catch (error) {
+      console.error('Error fetching feedback:', error.message);
+    }
+    if (!supabaseFeatures) return;
+
+    const {data: pronunciationData, error: pronunciationError} = await supabase
+      .from('session_pronunciation')
+      .select('session_id, assessment')
+      .in('session_id', sessionIds);
+
+    if (pronunciationError) {
+      console.error(
+        'Error fetching pronunciation assessments:',
+        pronunciationError.message,
+      );
+    } else if (pronunciationData) {
+      this.sessionPronunciation = {
+        ...this.sessionPronunciation,
+        ...Object.fromEntries(
+          pronunciationData.map((item) => [item.session_id, item.assessment]),
+        ),
+      };
     }
 
-    const {data: feedbackData, error: feedbackError} = await supabase
-      .from('session_feedback')
-      .select('session_id, feedback')
-      .eq('user_id', this.supabaseSession.user.id);
+    const {data: grammarData, error: grammarError} = await supabase
+      .from('session_grammar')
+      .select('session_id, annotations')
+      .in('session_id', sessionIds);
 
-    if (feedbackError) {
-      console.error('Error fetching feedback:', feedbackError.message);
-    } else if (feedbackData) {
-      const feedbackMap = feedbackData.reduce((acc, item) => {
-        acc[item.session_id] = item.feedback;
-        return acc;
-      }, {});
-      this.sessionFeedback = feedbackMap;
+    if (grammarError) {
+      console.error(
+        'Error fetching grammar annotations:',
+        grammarError.message,
+      );
+    } else if (grammarData) {
+      this.sessionGrammar = {
+        ...this.sessionGrammar,
+        ...Object.fromEntries(
+          grammarData.map((item) => [item.session_id, item.annotations]),
+        ),
+      };
     }
-  }
-
-  private async initSession(
-    systemInstruction: string,
-    responseModalities: Modality[] = [Modality.AUDIO],
-    extraConfig: object = {},
-    endOfSpeechTimeout?: number,
-  ) {
-    if (!this.client) return;
-    const model = 'gemini-2.5-flash-preview-native-audio-dialog';
 
-    try {
-      this.session = await this.client.live.connect({
-        model: model,
-        callbacks: {
-          onopen: () => {
-            console.log('Session opened.');
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audio =
-              message.serverContent?.modelTurn?.parts[0]?.inlineData;
-
-            if (
-              audio &&
-              !(this.currentPart === 'part2' && this.part2State === 'speaking')
-            ) {
-              this.nextStartTime = Math.max(
-                this.nextStartTime,
-                this.outputAudioContext.currentTime,
-              );
-
-              const audioBuffer = await decodeAudioData(
-                decode(audio.data),
-                this.outputAudioContext,
-                24000,
-                1,
-              );
-              const source = this.outputAudioContext.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(this.outputNode);
-              source.addEventListener('ended', () => {
-                this.sources.delete(source);
-              });
-
-              source.start(this.nextStartTime);
-              this.nextStartTime = this.nextStartTime + audioBuffer.duration;
-              this.sources.add(source);
-            }
+    const {data: metricsData, error: metricsError} = await supabase
+      .from('session_metrics')
+      .select('session_id, metrics, created_at')
+      .in('session_id', sessionIds);
+
+    if (metricsError) {
+      console.error('Error fetching fluency metrics:', metricsError.message);
+    } else if (metricsData) {
+      this.sessionMetrics = {
+        ...this.sessionMetrics,
+        ...Object.fromEntries(
+          metricsData.map(({session_id, metrics, created_at}) => [
+            session_id,
+            {metrics, created_at},
+          ]),
+        ),
+      };
+    }
 
-            const inputTranscription =
-              message.serverContent?.inputTranscription;
-            if (inputTranscription?.text) {
-              const lastTranscript =
-                this.transcripts[this.transcripts.length - 1];
-              if (lastTranscript?.speaker === 'Candidate') {
-                lastTranscript.text += inputTranscription.text;
-                this.transcripts = [...this.transcripts];
-              } else {
-                const newTranscript = {
-                  speaker: 'Candidate',
-                  text: inputTranscription.text,
-                };
-                this.transcripts = [...this.transcripts, newTranscript];
-              }
-            }
+    const {data: longTurnData, error: longTurnError} = await supabase
+      .from('part2_long_turns')
+      .select(
+        'session_id, speaking_seconds, ended_early, prompts, notes, sketch_path, notes_comparison',
+      )
+      .in('session_id', sessionIds);
+
+    if (longTurnError) {
+      console.error('Error fetching long turns:', longTurnError.message);
+    } else if (longTurnData) {
+      this.sessionLongTurns = {
+        ...this.sessionLongTurns,
+        ...Object.fromEntries(
+          longTurnData.map((row) => [
+            row.session_id,
+            {
+              speakingSeconds: row.speaking_seconds,
+              endedEarly: row.ended_early,
+              prompts: row.prompts,
+            },
+          ]),
+        ),
+      };
+      this.sessionNotes = {
+        ...this.sessionNotes,
+        ...Object.fromEntries(
+          longTurnData
+            .filter((row) => row.notes || row.sketch_path)
+            .map((row) => [
+              row.session_id,
+              {
+                text: row.notes ?? '',
+                sketchPath: row.sketch_path,
+                comparison: row.notes_comparison,
+              },
+            ]),
+        ),
+      };
+    }
 
-            const outputTranscription =
-              message.serverContent?.outputTranscription;
-            if (outputTranscription?.text) {
-              const lastTranscript =
-                this.transcripts[this.transcripts.length - 1];
-              if (lastTranscript?.speaker === 'Examiner') {
-                lastTranscript.text += outputTranscription.text;
-                this.transcripts = [...this.transcripts];
-              } else {
-                const newTranscript = {
-                  speaker: 'Examiner',
-                  text: outputTranscription.text,
-                };
-                this.transcripts = [...this.transcripts, newTranscript];
-              }
-            }
+    const {data: examData, error: examError} = await supabase
+      .from('exams')
+      .select('id, part1_session_id, part2_session_id, part3_session_id')
+      .or(
+        ['part1', 'part2', 'part3']
+          .map((part) => `${part}_session_id.in.(${sessionIds.join(',')})`)
+          .join(','),
+      );
 
-            const interrupted = message.serverContent?.interrupted;
-            if (interrupted) {
-              for (const source of this.sources.values()) {
-                source.stop();
-                this.sources.delete(source);
-              }
-              this.nextStartTime = 0;
-            }
-          },
-          onerror: (e: ErrorEvent) => {
-            console.error(e);
-          },
-          onclose: (e: CloseEvent) => {
-            console.log(
-              `Session closed. Code: ${e.code}, Reason: "${e.reason}", Clean: ${e.wasClean}`,
-            );
-          },
-        },
-        config: {
-          responseModalities: responseModalities,
-          speechConfig: {
-            voiceConfig: {prebuiltVoiceConfig: {voiceName: 'Orus'}},
-          },
-          inputAudioTranscription: {
-            languageCodes: ['en-US'],
-            model: 'chirp',
-            // Use override if provided, otherwise default to 5000
-            endOfSpeechTimeoutMillis: endOfSpeechTimeout ?? 5000,
-          },
-          outputAudioTranscription: {languageCodes: ['en-US']},
-          systemInstruction,
-          ...extraConfig,
-        },
-      });
-    } catch (e) {
-      console.error(e);
+    if (examError) {
+      console.error('Error fetching exams:', examError.message);
+    } else if (examData) {
+      const examParts: typeof this.sessionExamParts = {};
+      for (const exam of examData) {
+        for (const part of ['part1', 'part2', 'part3'] as const) {
+          const sessionId = exam[`${part}_session_id`];
+          if (sessionId) {
+            examParts[sessionId] = {examId: exam.id, part};
+          }
+        }
+      }
+      this.sessionExamParts = {...this.sessionExamParts, ...examParts};
     }
   }
 
-  private async startRecording(
-    systemInstruction: string,
-    responseModalities: Modality[] = [Modality.AUDIO],
-    extraConfig: object = {},
-    endOfSpeechTimeout?: number,
-  ) {
-    if (this.userCredits !== null && this.userCredits <= 0) {
-      this.isOutOfCreditsModalOpen = true;
-      return;
-    }
-    if (this.isRecording) {
+  /** Loads a session's transcript and recording the first time it is opened. */
+  private async loadSessionTranscripts(sessionId: string) {
+    if (!this.supabaseSession || this.chatHistory[sessionId]) return;
+
+    try {
+      const messages = await repository.fetchSessionTranscripts(sessionId);
+      this.chatHistory = {...this.chatHistory, [sessionId]: messages};
+    } catch (error) {
+      console.error('Error fetching transcript:', error.message);
       return;
     }
+    if (!supabaseFeatures) return;
 
-    this.transcripts = [];
-    this.currentSessionId = crypto.randomUUID();
+    const {data: recordingFiles, error: recordingError} = await supabase.storage
+      .from('session-audio')
+      .list(this.supabaseSession.user.id, {search: sessionId});
 
-    await this.initSession(
-      systemInstruction,
-      responseModalities,
-      extraConfig,
-      endOfSpeechTimeout,
-    );
-    if (!this.session) {
-      console.error('Could not start new session.');
-      return;
+    if (recordingError) {
+      console.error('Error listing recordings:', recordingError.message);
+    } else if (recordingFiles?.length) {
+      this.sessionRecordingPaths = {
+        ...this.sessionRecordingPaths,
+        [sessionId]: `${this.supabaseSession.user.id}/${recordingFiles[0].name}`,
+      };
+    }
+  }
+
+  private async loadSessionDetail(sessionId: string) {
+    try {
+      const summary = await repository.fetchSessionSummary(sessionId);
+      if (summary) {
+        this.sessionSummaries = {
+          ...this.sessionSummaries,
+          [sessionId]: summary,
+        };
+      }
+    } catch (error) {
+      console.error('Error fetching session:', error.message);
+    }
+    await this.fetchSessionDetails([sessionId]);
+    await this.loadSessionTranscripts(sessionId);
+  }
+
+  private toggleHistorySession(sessionId: string) {
+    const expanded = !this.expandedSessionIds[sessionId];
+    this.expandedSessionIds = {
+      ...this.expandedSessionIds,
+      [sessionId]: expanded,
+    };
+    if (expanded) {
+      this.loadSessionTranscripts(sessionId);
+    }
+  }
+
+  private handleHistoryFilterSubmit(e: SubmitEvent) {
+    e.preventDefault();
+    const form = new FormData(e.target as HTMLFormElement);
+    const minBand = form.get('minBand') as string;
+    this.historyFilters = {
+      query: form.get('query') as string,
+      part: form.get('part') as HistoryFilters['part'],
+      from: form.get('from') as string,
+      to: form.get('to') as string,
+      minBand: minBand ? Number(minBand) : null,
+      topic: form.get('topic') as string,
+    };
+    this.fetchHistory();
+  }
+
+  private clearHistoryFilters() {
+    this.historyFilters = NO_HISTORY_FILTERS;
+    this.fetchHistory();
+  }
+
+  private async initSession(
+    systemInstruction: string,
+    responseModalities: Modality[] = [Modality.AUDIO],
+    extraConfig: LiveConnectConfig = {},
+  ) {
+    if (!this.client) return;
+
+    const examSession = new ExamSession({
+      transport: process.env.MOCK_LIVE
+        ? new MockLiveTransport()
+        : this.client.live,
+      systemInstruction: applyPersona(systemInstruction, this.examinerPersona),
+      voiceName: this.examinerPersona.voiceName,
+      languageCode: this.examinerPersona.languageCode,
+      responseModalities,
+      extraConfig,
+      clock: (speaker) => this.sessionClockMs(speaker),
+    });
+
+    examSession.on('audio-chunk', ({data}) => {
+      // The examiner stays silent during the Part 2 long turn.
+      if (
+        !(this.currentPart === 'part2' && this.part2State === 'speaking') ||
+        this.isPart2Prompting
+      ) {
+        this.audioPlayback.enqueue(data);
+      }
+    });
+    examSession.on('transcript-delta', ({speaker, transcripts}) => {
+      this.transcripts = transcripts;
+      if (speaker === 'Candidate') {
+        this.candidateAudio.transcribed(
+          transcripts[transcripts.length - 1].deltas.length === 1,
+        );
+      }
+    });
+    const sessionId = this.currentSessionId;
+    examSession.on(
+      'turn-finalized',
+      ({index, speaker, text, startMs, endMs, deltas}) => {
+        if (speaker === 'Candidate') {
+          this.candidateAudio.endTurn(index);
+        }
+        if (!this.supabaseSession || !sessionId) return;
+        this.transcriptStore.saveTurn({
+          user_id: this.supabaseSession.user.id,
+          session_id: sessionId,
+          turn_index: index,
+          speaker,
+          text,
+          audio_offset_ms: startMs,
+          audio_end_ms: endMs,
+          deltas,
+        });
+      },
+    );
+    examSession.on('interrupted', () => {
+      this.audioPlayback.interrupt();
+    });
+    examSession.on('turn-complete', ({transcripts}) => {
+      const last = transcripts[transcripts.length - 1];
+      if (last?.speaker !== 'Examiner') return;
+      this.isPart2Prompting = false;
+      // Let the closing line finish playing before the part ends.
+      if (
+        this.partClockPhase === 'closing' &&
+        (transcripts.length > this.partClosingTurnCount ||
+          saysLine(last.text, this.partClosingLine))
+      ) {
+        window.setTimeout(
+          () => this.finishTimedPart(true),
+          this.audioPlayback.remainingMs,
+        );
+      } else if (
+        this.part2State === 'rounding-off' &&
+        /booklet/i.test(last.text)
+      ) {
+        window.setTimeout(
+          () => this.finishPart2(),
+          this.audioPlayback.remainingMs,
+        );
+      }
+    });
+    examSession.on('state-change', ({state}) => {
+      if (examSession !== this.examSession) return;
+      // Keep the failure banner up after the session is torn down below.
+      if (state === 'closed' && this.connectionState === 'failed') return;
+      this.connectionState = state;
+      if (state === 'reconnecting') {
+        // Anything still queued belongs to a turn the new connection redoes.
+        this.audioPlayback.interrupt();
+      } else if (state === 'failed') {
+        this.endFullTest();
+        this.stopCurrentSession();
+      }
+    });
+    examSession.on('error', ({error}) => {
+      console.error(error);
+    });
+    examSession.on('closed', ({code, reason, wasClean}) => {
+      console.log(
+        `Session closed. Code: ${code}, Reason: "${reason}", Clean: ${wasClean}`,
+      );
+    });
+
+    this.examSession = examSession;
+    try {
+      await examSession.start();
+    } catch (e) {
+      console.error(e);
+      this.examSession = null;
+      this.connectionState = 'closed';
+    }
+  }
+
+  /**
+   * Milliseconds since recording started, read from the audio clock that
+   * carries the speaker's voice. Anything said before the recording began is
+   * stamped at zero, which is where playback of the recording starts.
+   */
+  private sessionClockMs(speaker: string) {
+    if (!this.isRecording) return 0;
+    const [context, origin] =
+      speaker === 'Candidate'
+        ? [this.inputAudioContext, this.inputClockOrigin]
+        : [this.outputAudioContext, this.outputClockOrigin];
+    return Math.max(0, Math.round((context.currentTime - origin) * 1000));
+  }
+
+  private async startRecording(
+    systemInstruction: string,
+    responseModalities: Modality[] = [Modality.AUDIO],
+    extraConfig: LiveConnectConfig = {},
+  ) {
+    if (this.userCredits !== null && this.userCredits <= 0) {
+      this.isOutOfCreditsModalOpen = true;
+      return;
+    }
+    if (this.isRecording) {
+      return;
+    }
+
+    this.transcripts = [];
+    this.currentSessionId = crypto.randomUUID();
+    this.resetModelAnswers();
+    this.candidateAudio.take();
+
+    await this.initSession(systemInstruction, responseModalities, extraConfig);
+    if (!this.examSession) {
+      console.error('Could not start new session.');
+      return;
     }
 
     this.inputAudioContext.resume();
@@ -1419,15 +2475,30 @@ export class GdmLiveAudio extends LitElement {
       this.audioWorkletNode.port.onmessage = (
         event: MessageEvent<Float32Array>,
       ) => {
-        if (!this.isRecording || !this.session) return;
-        const pcmData = event.data;
-        this.session.sendRealtimeInput({media: createBlob(pcmData)});
+        if (!this.isRecording || !this.examSession) return;
+        this.candidateAudio.push(event.data);
+        if (this.part2State === 'speaking') {
+          this.silenceDetector.push(event.data);
+        }
+        this.examSession.sendAudio(event.data);
       };
 
       this.sourceNode.connect(this.audioWorkletNode);
       this.audioWorkletNode.connect(this.inputAudioContext.destination);
 
+      this.sessionRecorder.start(this.mediaStream);
+      this.inputClockOrigin = this.inputAudioContext.currentTime;
+      this.outputClockOrigin = this.outputAudioContext.currentTime;
+
       this.isRecording = true;
+      this.sessionStartedAt = Date.now();
+      this.recordSessionStart();
+      if (this.isFullTest) {
+        this.linkSessionToExam();
+      }
+      if (this.currentPart === 'part1' || this.currentPart === 'part3') {
+        this.startPartClock();
+      }
       this.creditUsageInterval = window.setInterval(
         () => this.deductCredits(),
         this.creditUpdateIntervalMs,
@@ -1442,8 +2513,13 @@ export class GdmLiveAudio extends LitElement {
     if (!this.isRecording && !this.mediaStream && !this.inputAudioContext)
       return;
 
+    if (this.part2State === 'speaking') {
+      this.captureLongTurn(false);
+    }
     if (this.currentPart === 'part2' && this.part2Topic) {
       this.part2TopicForPart3 = this.part2Topic;
+      this.part3SourceCard = this.part2SourceCard;
+      this.part3DrillTheme = null;
       this.part2State = 'finished';
     }
 
@@ -1451,28 +2527,40 @@ export class GdmLiveAudio extends LitElement {
       clearInterval(this.part2TimerInterval);
       this.part2TimerInterval = null;
     }
+    if (this.part2RoundOffTimeout) {
+      clearTimeout(this.part2RoundOffTimeout);
+      this.part2RoundOffTimeout = null;
+    }
+    this.stopPartClock();
 
     if (this.creditUsageInterval) {
       clearInterval(this.creditUsageInterval);
       this.creditUsageInterval = null;
     }
 
-    if (this.transcripts.length > 0) {
-      await this.saveCurrentSessionHistory();
-      this.processMissingFeedback();
+    if (this.sessionStartedAt) {
+      repository
+        .finishSession(
+          this.currentSessionId!,
+          Math.round((Date.now() - this.sessionStartedAt) / 1000),
+        )
+        .catch((error) =>
+          console.error('Error recording session end:', error.message),
+        );
+      this.sessionStartedAt = 0;
     }
 
     this.isRecording = false;
 
-    if (this.session) {
-      try {
-        this.session.close();
-      } catch (e) {
-        console.error('Ignoring error during session.close():', e);
-      }
-      this.session = null;
+    if (this.examSession) {
+      // Closing finalizes the last turn, which hands it to the store.
+      this.examSession.close();
+      this.examSession = null;
     }
 
+    // Stop recording before the microphone tracks end to keep the last chunk.
+    const recording = this.sessionRecorder.stop();
+
     if (this.audioWorkletNode && this.sourceNode) {
       this.audioWorkletNode.disconnect();
       this.sourceNode.disconnect();
@@ -1485,6 +2573,370 @@ export class GdmLiveAudio extends LitElement {
       this.mediaStream.getTracks().forEach((track) => track.stop());
       this.mediaStream = null;
     }
+
+    if (this.transcripts.length > 0) {
+      const sessionId = this.currentSessionId!;
+      const cueCard = this.part2CueCard;
+      const clips = this.candidateAudio.take();
+      const turns = this.transcripts
+        .map(({speaker, text}, turnIndex) => ({
+          speaker,
+          turnIndex,
+          text,
+          samples: clips.get(turnIndex),
+        }))
+        .filter(
+          (turn): turn is CandidateTurnAudio & {speaker: string} =>
+            turn.speaker === 'Candidate' && !!turn.samples,
+        );
+      await this.transcriptStore.flush();
+      if (this.part2LongTurn) {
+        const notes = await this.part2Notes;
+        await this.saveLongTurn(sessionId, this.part2LongTurn, notes);
+        if (cueCard && notes && (notes.text || notes.sketch)) {
+          this.processNotesComparison(
+            sessionId,
+            notes,
+            cueCard,
+            turns.map(({text}) => text).join(' '),
+          );
+        }
+        this.part2LongTurn = null;
+        this.part2Notes = null;
+      }
+      const candidateLines = this.transcripts
+        .map(({speaker, text}, turnIndex) => ({speaker, turnIndex, text}))
+        .filter(({speaker, text}) => speaker === 'Candidate' && text.trim());
+      // The error counts feed into the band report, so check grammar first.
+      this.processGrammar(sessionId, candidateLines).then(() =>
+        this.processMissingFeedback(),
+      );
+      this.detectActivatedWords(
+        sessionId,
+        candidateLines.map(({text}) => text).join(' '),
+      );
+      this.processPronunciation(sessionId, turns);
+      if (turns.length > 0) {
+        this.saveFluencyMetrics(sessionId, computeFluencyMetrics(turns));
+      }
+      this.uploadRecording(sessionId, await recording);
+    }
+  }
+
+  /** Marks notebook words from earlier sessions that the candidate used. */
+  private async detectActivatedWords(sessionId: string, spoken: string) {
+    if (!this.supabaseSession || !supabaseFeatures || !spoken.trim()) return;
+
+    try {
+      const learning = (
+        await fetchNotebook(this.supabaseSession.user.id)
+      ).filter(
+        (entry) => !entry.activatedAt && entry.sourceSessionId !== sessionId,
+      );
+      const used = findUsedWords(learning, spoken);
+      await markActivated(
+        used.map(({id}) => id),
+        sessionId,
+      );
+    } catch (e) {
+      console.error(`Error checking vocabulary for session ${sessionId}:`, e);
+    }
+  }
+
+  private async uploadRecording(
+    sessionId: string,
+    recording: SessionRecording | null,
+  ) {
+    if (!this.supabaseSession || !supabaseFeatures || !recording) return;
+
+    const path = `${this.supabaseSession.user.id}/${sessionId}.${recording.extension}`;
+    const {error} = await supabase.storage
+      .from('session-audio')
+      .upload(path, recording.blob, {
+        contentType: recording.blob.type,
+        upsert: true,
+      });
+
+    if (error) {
+      console.error(
+        `Error uploading recording for session ${sessionId}:`,
+        error.message,
+      );
+      return;
+    }
+
+    this.sessionRecordingPaths = {
+      ...this.sessionRecordingPaths,
+      [sessionId]: path,
+    };
+  }
+
+  private async loadRecording(sessionId: string) {
+    const path = this.sessionRecordingPaths[sessionId];
+    if (!path || this.recordingUrls[sessionId]) return;
+
+    const {data, error} = await supabase.storage
+      .from('session-audio')
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('Error loading recording:', error.message);
+      return;
+    }
+
+    this.recordingUrls = {...this.recordingUrls, [sessionId]: data.signedUrl};
+  }
+
+  private async seekRecording(sessionId: string, offsetMs: number) {
+    await this.loadRecording(sessionId);
+    await this.updateComplete;
+    const player = this.shadowRoot?.querySelector<GdmSessionPlayer>(
+      `gdm-session-player[data-session-id="${sessionId}"]`,
+    );
+    player?.seek(offsetMs / 1000);
+  }
+
+  private async saveFluencyMetrics(sessionId: string, metrics: FluencyMetrics) {
+    if (!this.supabaseSession) return;
+
+    // Without Supabase the metrics are only kept for this visit.
+    let createdAt = new Date().toISOString();
+    if (supabaseFeatures) {
+      const {data, error} = await supabase
+        .from('session_metrics')
+        .insert({
+          session_id: sessionId,
+          user_id: this.supabaseSession.user.id,
+          metrics,
+        })
+        .select('created_at')
+        .single();
+
+      if (error) {
+        console.error(
+          `Error saving fluency metrics for session ${sessionId}:`,
+          error.message,
+        );
+        return;
+      }
+      createdAt = data.created_at;
+    }
+
+    this.sessionMetrics = {
+      ...this.sessionMetrics,
+      [sessionId]: {metrics, created_at: createdAt},
+    };
+  }
+
+  private async processPronunciation(
+    sessionId: string,
+    turns: CandidateTurnAudio[],
+  ) {
+    if (!this.client || !this.supabaseSession || turns.length === 0) return;
+
+    let assessment: PronunciationAssessment;
+    try {
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildPronunciationRequest(turns),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: PRONUNCIATION_SCHEMA,
+        },
+      });
+      assessment = parsePronunciationAssessment(
+        response.text,
+        speechRateWpm(turns),
+      );
+    } catch (e) {
+      console.error(
+        `Error assessing pronunciation for session ${sessionId}:`,
+        e,
+      );
+      return;
+    }
+
+    if (supabaseFeatures) {
+      const {error} = await supabase.from('session_pronunciation').insert({
+        session_id: sessionId,
+        user_id: this.supabaseSession.user.id,
+        assessment,
+      });
+      if (error) {
+        console.error(
+          `Error saving pronunciation for session ${sessionId}:`,
+          error.message,
+        );
+        return;
+      }
+    }
+
+    this.sessionPronunciation = {
+      ...this.sessionPronunciation,
+      [sessionId]: assessment,
+    };
+  }
+
+  private async processGrammar(
+    sessionId: string,
+    lines: Array<{turnIndex: number; text: string}>,
+  ) {
+    if (!this.client || !this.supabaseSession || lines.length === 0) return;
+
+    let annotations: GrammarAnnotations;
+    try {
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildGrammarRequest(lines),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: GRAMMAR_SCHEMA,
+        },
+      });
+      annotations = parseGrammarAnnotations(response.text, lines);
+    } catch (e) {
+      console.error(`Error checking grammar for session ${sessionId}:`, e);
+      return;
+    }
+
+    if (supabaseFeatures) {
+      const {error} = await supabase.from('session_grammar').insert({
+        session_id: sessionId,
+        user_id: this.supabaseSession.user.id,
+        annotations,
+      });
+      if (error) {
+        console.error(
+          `Error saving grammar for session ${sessionId}:`,
+          error.message,
+        );
+        return;
+      }
+    }
+
+    this.sessionGrammar = {
+      ...this.sessionGrammar,
+      [sessionId]: annotations,
+    };
+  }
+
+  private resetModelAnswers() {
+    this.stopModelAnswerPlayback();
+    this.modelAnswers = null;
+    this.modelAnswerError = null;
+    this.modelAnswerAudio.clear();
+  }
+
+  private async generateModelAnswers() {
+    const part = this.currentPart;
+    if (!this.client || (part !== 'part2' && part !== 'part3')) return;
+
+    const pairs = answerPairs(part, this.transcripts, this.part2CueCard);
+    if (pairs.length === 0) {
+      this.modelAnswerError = 'Answer a question first to get a model answer.';
+      return;
+    }
+
+    this.isModelAnswerLoading = true;
+    this.modelAnswerError = null;
+    try {
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildModelAnswerPrompt(part, pairs),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: modelAnswerSchema(pairs.length),
+        },
+      });
+      this.modelAnswers = parseModelAnswers(response.text, pairs);
+    } catch (error) {
+      console.error('Error generating model answers:', error);
+      this.modelAnswerError = `Could not write a model answer: ${error.message}`;
+    }
+    this.isModelAnswerLoading = false;
+  }
+
+  /**
+   * Reads a model answer aloud in the examiner's voice through the same
+   * output as the live session, or stops it if it is already playing.
+   */
+  private async playModelAnswer(index: number) {
+    const wasPlaying = this.playingModelAnswer === index;
+    this.stopModelAnswerPlayback();
+    if (wasPlaying || !this.client || !this.modelAnswers) return;
+
+    this.playingModelAnswer = index;
+    const {voiceName, languageCode, pace} = this.examinerPersona;
+    try {
+      let audio = this.modelAnswerAudio.get(index);
+      if (!audio) {
+        const response = await this.client.models.generateContent({
+          model: 'gemini-2.5-flash-preview-tts',
+          contents: `Read this IELTS speaking answer aloud at a ${pace} pace, as a confident candidate would say it: ${this.modelAnswers[index].modelAnswer}`,
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {prebuiltVoiceConfig: {voiceName}},
+              languageCode,
+            },
+          },
+        });
+        const data =
+          response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!data) throw new Error('The response contained no audio.');
+        audio = decode(data);
+        this.modelAnswerAudio.set(index, audio);
+      }
+      // Stopped, or another answer was picked, while the audio was loading.
+      if (this.playingModelAnswer !== index) return;
+
+      await this.outputAudioContext.resume();
+      await this.audioPlayback.enqueue(audio);
+      this.modelAnswerPlaybackTimeout = window.setTimeout(() => {
+        this.playingModelAnswer = null;
+        this.modelAnswerPlaybackTimeout = null;
+      }, this.audioPlayback.remainingMs);
+    } catch (error) {
+      console.error('Error synthesising model answer:', error);
+      this.modelAnswerError = `Could not play the model answer: ${error.message}`;
+      this.playingModelAnswer = null;
+    }
+  }
+
+  private stopModelAnswerPlayback() {
+    if (this.playingModelAnswer === null) return;
+    this.audioPlayback.interrupt();
+    if (this.modelAnswerPlaybackTimeout) {
+      clearTimeout(this.modelAnswerPlaybackTimeout);
+      this.modelAnswerPlaybackTimeout = null;
+    }
+    this.playingModelAnswer = null;
+  }
+
+  private recordSessionStart() {
+    if (!this.supabaseSession) return;
+    const part = this.currentPart;
+    const sourceCard =
+      part === 'part2'
+        ? this.part2SourceCard
+        : part === 'part3'
+          ? this.part3SourceCard
+          : null;
+    repository
+      .startSession(this.supabaseSession.user.id, {
+        id: this.currentSessionId!,
+        part,
+        cueCardId: sourceCard?.id ?? null,
+        topic:
+          part === 'part2'
+            ? this.part2Topic
+            : part === 'part3'
+              ? this.part2TopicForPart3
+              : null,
+      })
+      .catch((error) =>
+        console.error('Error recording session start:', error.message),
+      );
   }
 
   private async stopCurrentSession() {
@@ -1494,6 +2946,7 @@ export class GdmLiveAudio extends LitElement {
   }
 
   private async handlePartSelect(part: 'part1' | 'part2' | 'part3') {
+    this.endFullTest();
     await this.stopCurrentSession();
 
     if (this.userCredits !== null && this.userCredits <= 0) {
@@ -1503,15 +2956,18 @@ export class GdmLiveAudio extends LitElement {
 
     this.currentPart = part;
     this.transcripts = [];
+    this.fullTestTranscripts = [];
 
     // Only reset Part 2 state if the user is starting a new Part 2 session.
     // This preserves the topic from the last completed Part 2 for Part 3.
     if (part === 'part2') {
       this.part2CueCard = null;
+      this.part2SourceCard = null;
       this.part2Topic = null;
       this.part2State = 'idle';
       this.part2PreparationTimeLeft = 60;
       this.part2SpeakingTimeLeft = 120;
+      this.loadCueCardOptions();
     }
 
     switch (part) {
@@ -1533,9 +2989,9 @@ export class GdmLiveAudio extends LitElement {
             'You will be given a cue card with a topic.',
             'You will have 1 minute to prepare and take notes.',
             'You must speak on the topic for 1-2 minutes.',
-            'Please have a pen and paper ready for note-taking.',
+            'Type or sketch your notes on the note pad below the cue card; they stay visible while you speak.',
           ],
-          checkboxLabel: 'I have my pen and paper, and I am ready.',
+          checkboxLabel: 'I understand, and I am ready.',
         };
         break;
       case 'part3':
@@ -1564,12 +3020,43 @@ export class GdmLiveAudio extends LitElement {
     this.isIntroModalOpen = true;
   }
 
+  private async handleFullTestSelect() {
+    this.endFullTest();
+    await this.stopCurrentSession();
+
+    if (this.userCredits !== null && this.userCredits <= 0) {
+      this.isOutOfCreditsModalOpen = true;
+      return;
+    }
+
+    this.isFullTest = true;
+    this.currentPart = null;
+    this.transcripts = [];
+    this.fullTestTranscripts = [];
+    this.introModalContent = {
+      title: 'IELTS Speaking: Full Test',
+      instructions: [
+        'You will take Parts 1, 2 and 3 back-to-back, as in the real exam.',
+        'Part 1 lasts 4-5 minutes, Part 2 gives you 1 minute to prepare and 2 minutes to speak, and Part 3 lasts 4-5 minutes.',
+        'The whole test takes 11-14 minutes and the examiner will move you between parts.',
+        'You can take notes on the in-app note pad in Part 2. Please make sure you are in a quiet place.',
+      ],
+      checkboxLabel: 'I understand, and I am ready.',
+    };
+    this.isIntroConfirmed = false;
+    this.isIntroModalOpen = true;
+  }
+
   private async handleStartPart() {
     this.isIntroModalOpen = false;
+    if (this.isFullTest) {
+      await this.startFullTest();
+      return;
+    }
     if (!this.currentPart) return;
 
     if (this.currentPart === 'part1') {
-      await this.startRecording(PART1_INSTRUCTION, undefined, {
+      await this.startRecording(await this.part1Instruction(), undefined, {
         thinkingConfig: {thinkingBudget: 0},
       });
     } else if (this.currentPart === 'part2') {
@@ -1581,7 +3068,7 @@ export class GdmLiveAudio extends LitElement {
     } else if (this.currentPart === 'part3') {
       if (this.part2TopicForPart3) {
         await this.startRecording(
-          PART3_INSTRUCTION_TEMPLATE(this.part2TopicForPart3),
+          await this.part3Instruction(this.part2TopicForPart3),
           undefined,
           {
             thinkingConfig: {thinkingBudget: 0},
@@ -1591,105 +3078,619 @@ export class GdmLiveAudio extends LitElement {
     }
   }
 
-  private async fetchCueCard() {
+  /**
+   * Builds the Part 1 prompt from the curated topic bank, falling back to
+   * letting the model choose topics while the bank is empty or unavailable.
+   */
+  private async part1Instruction() {
+    if (!supabaseFeatures) return PART1_INSTRUCTION;
     try {
-      const {data, error} = await supabase.rpc('get_random_cue_card');
+      const topics = await pickPart1Topics();
+      if (topics.length > 0) return buildPart1Instruction(topics);
+    } catch (e) {
+      console.error('Error loading Part 1 topics:', e);
+    }
+    return PART1_INSTRUCTION;
+  }
 
-      if (error) {
-        if (
-          error.message.includes('function get_random_cue_card() does not exist')
-        ) {
-          throw new Error(
-            'The `get_random_cue_card` database function is missing. Please run the required SQL script in your Supabase project.',
+  private async part3Instruction(topic: string) {
+    if (!supabaseFeatures) return PART3_INSTRUCTION_TEMPLATE(topic);
+    try {
+      const questions = this.part3DrillTheme
+        ? await findPart3QuestionsByTheme(this.part3DrillTheme)
+        : await findPart3Questions(
+            this.part3SourceCard?.id ?? null,
+            this.part3SourceCard?.category ?? null,
           );
-        }
-        throw error; // Re-throw other RPC errors
-      }
+      if (questions.length > 0) return buildPart3Instruction(topic, questions);
+    } catch (e) {
+      console.error('Error loading Part 3 questions:', e);
+    }
+    return PART3_INSTRUCTION_TEMPLATE(topic);
+  }
+
+  private async loadCueCardOptions() {
+    try {
+      this.cueCardOptions = await repository.fetchCueCards({
+        category: this.cueCardSelection.category,
+      });
+    } catch (e) {
+      console.error('Error loading cue cards:', e);
+      this.cueCardOptions = [];
+    }
+  }
 
-      // This is the most likely failure point if RLS is enabled without a policy.
-      // The RPC call succeeds but returns no data.
-      if (!data) {
+  private handleCueCardCategoryChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.cueCardSelection = {
+      category: value ? (value as CueCardSelection['category']) : undefined,
+    };
+    this.loadCueCardOptions();
+  }
+
+  private handleCueCardChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.cueCardSelection = {
+      ...this.cueCardSelection,
+      cardId: value || undefined,
+    };
+  }
+
+  private async fetchCueCard(): Promise<boolean> {
+    if (!this.supabaseSession) return false;
+
+    try {
+      // A full test always draws from the whole bank.
+      const cueCard = await selectCueCard(
+        this.supabaseSession.user.id,
+        this.isFullTest ? {} : this.cueCardSelection,
+      );
+
+      if (!cueCard.title || cueCard.bullets.length === 0) {
+        console.log('Incomplete data received:', cueCard);
         throw new Error(
-          'No cue card was returned from the database. This is likely due to Row Level Security (RLS). Please check that RLS is disabled on the `ielts_part2_cues` table, or that a policy exists which allows authenticated users to SELECT from it.',
+          'The fetched cue card is incomplete. It is missing a title or bullet points.',
         );
       }
 
-      const cueCardData = Array.isArray(data) ? data[0] : data;
+      this.part2SourceCard = cueCard;
+      this.part2Topic = cueCard.title;
+      this.part2CueCard = {
+        description: cueCard.title,
+        points: cueCard.bullets,
+      };
+      this.transcripts = []; // Clear the "fetching" message
+      this.startPart2Preparation();
+      return true;
+    } catch (e) {
+      console.error('Error fetching cue card:', e);
+      const errorMessage =
+        e instanceof Error ? e.message : 'An unknown error occurred.';
+
+      this.transcripts = [
+        {
+          speaker: 'Examiner',
+          text: `Sorry, there was an error fetching the cue card. Please try again. Details: ${errorMessage}`,
+        },
+      ];
+      this.part2State = 'idle';
+      return false;
+    }
+  }
+
+  private startPart2Preparation() {
+    this.part2State = 'preparing';
+    this.part2PreparationTimeLeft = 60;
+
+    this.part2TimerInterval = window.setInterval(() => {
+      this.part2PreparationTimeLeft -= 1;
+      if (this.part2PreparationTimeLeft <= 0) {
+        clearInterval(this.part2TimerInterval!);
+        this.part2TimerInterval = null;
+        this.startPart2SpeakingSession();
+      }
+    }, 1000);
+  }
+
+  private async startPart2SpeakingSession() {
+    this.part2State = 'speaking';
+    this.part2SpeakingTimeLeft = 120;
+    this.silenceDetector.reset();
+    this.part2Prompts = 0;
+    this.isPart2Prompting = false;
+    this.isAwaitingPart2Speech = false;
+    this.showShortLongTurnWarning = false;
+    this.part2LongTurn = null;
 
-      // Also check if the returned object is empty, just in case.
-      if (Object.keys(cueCardData).length === 0) {
-        throw new Error(
-          'The database function returned an empty object. Please check the `get_random_cue_card` function definition in Supabase.',
+    // The model is instructed to be silent. We request AUDIO modality to ensure
+    // the connection remains active and provides input transcriptions.
+    await this.startRecording(PART2_INSTRUCTION, [Modality.AUDIO], {});
+    // Nothing to time if the session did not start, e.g. out of credits.
+    if (!this.isRecording) {
+      if (this.part2State === 'speaking') this.part2State = 'idle';
+      return;
+    }
+    if (this.supabaseSession && this.part2SourceCard) {
+      repository
+        .recordCueCardAttempt(
+          this.supabaseSession.user.id,
+          this.part2SourceCard.id,
+          this.currentSessionId!,
+        )
+        .catch((error) =>
+          console.error('Error recording cue card attempt:', error.message),
         );
+    }
+
+    this.part2TimerInterval = window.setInterval(() => {
+      this.part2SpeakingTimeLeft -= 1;
+      if (this.part2SpeakingTimeLeft <= 0) {
+        this.endLongTurn(false);
+      } else {
+        this.checkPart2Silence();
       }
+    }, 1000);
+  }
+
+  /**
+   * Prompts a candidate who has gone quiet to continue, and ends the long
+   * turn if they stay quiet after the last prompt.
+   */
+  private checkPart2Silence() {
+    const promptAfterMs = this.examinerPersona.silencePromptSeconds * 1000;
+    const detector = this.silenceDetector;
+    if (!promptAfterMs || !detector.hasSpoken) return;
+
+    if (detector.silenceMs < promptAfterMs) {
+      this.isAwaitingPart2Speech = false;
+      return;
+    }
+    // Give the candidate time to respond to the prompt before acting again.
+    if (this.isAwaitingPart2Speech && detector.silenceMs < promptAfterMs * 2) {
+      return;
+    }
+
+    const spokenEnough = detector.speakingMs >= LONG_TURN_MIN_SECONDS * 1000;
+    if (this.part2Prompts < PART2_MAX_PROMPTS && !this.isAwaitingPart2Speech) {
+      this.part2Prompts += 1;
+      this.isAwaitingPart2Speech = true;
+      this.isPart2Prompting = true;
+      this.examSession?.sendInstruction(PART2_CONTINUE_NUDGE, true);
+    } else if (spokenEnough) {
+      this.endLongTurn(false);
+    } else {
+      this.showShortLongTurnWarning = true;
+    }
+  }
+
+  /** Ends the long turn early; under a minute the candidate confirms first. */
+  private handlePart2Done() {
+    const spokenSeconds = this.silenceDetector.speakingMs / 1000;
+    if (
+      spokenSeconds < LONG_TURN_MIN_SECONDS &&
+      !this.showShortLongTurnWarning
+    ) {
+      this.showShortLongTurnWarning = true;
+      return;
+    }
+    this.endLongTurn(true);
+  }
+
+  private endLongTurn(endedEarly: boolean) {
+    if (this.part2State !== 'speaking') return;
+    if (this.part2TimerInterval) {
+      clearInterval(this.part2TimerInterval);
+      this.part2TimerInterval = null;
+    }
+    this.captureLongTurn(endedEarly);
+    this.showShortLongTurnWarning = false;
+    this.isPart2Prompting = false;
+    this.startPart2RoundingOff();
+  }
+
+  private captureLongTurn(endedEarly: boolean) {
+    this.part2LongTurn = {
+      speakingSeconds: Math.round(this.silenceDetector.speakingMs / 1000),
+      endedEarly,
+      prompts: this.part2Prompts,
+    };
+    const notePad = this.shadowRoot?.querySelector('gdm-note-pad');
+    this.part2Notes = notePad
+      ? notePad.toPng().then((sketch) => ({text: notePad.notes, sketch}))
+      : null;
+  }
+
+  private async saveLongTurn(
+    sessionId: string,
+    longTurn: LongTurn,
+    notes: Part2Notes | null,
+  ) {
+    if (!this.supabaseSession) return;
+
+    // Without Supabase the long turn is only kept for this visit.
+    let sketchPath: string | null = null;
+    if (supabaseFeatures) {
+      if (notes?.sketch) {
+        sketchPath = `${this.supabaseSession.user.id}/${sessionId}.png`;
+        const {error} = await supabase.storage
+          .from('session-notes')
+          .upload(sketchPath, notes.sketch, {
+            contentType: 'image/png',
+            upsert: true,
+          });
+        if (error) {
+          console.error('Error uploading note sketch:', error.message);
+          sketchPath = null;
+        }
+      }
+
+      const {error} = await supabase.from('part2_long_turns').upsert({
+        session_id: sessionId,
+        user_id: this.supabaseSession.user.id,
+        cue_card_id: this.part2SourceCard?.id ?? null,
+        speaking_seconds: longTurn.speakingSeconds,
+        ended_early: longTurn.endedEarly,
+        prompts: longTurn.prompts,
+        notes: notes?.text ?? null,
+        sketch_path: sketchPath,
+      });
+
+      if (error) {
+        console.error('Error saving long turn:', error.message);
+        return;
+      }
+    }
+    this.sessionLongTurns = {...this.sessionLongTurns, [sessionId]: longTurn};
+    if (notes && (notes.text || sketchPath)) {
+      this.sessionNotes = {
+        ...this.sessionNotes,
+        [sessionId]: {text: notes.text, sketchPath, comparison: null},
+      };
+    }
+  }
+
+  /** Coaches planning technique by comparing the notes with the long turn. */
+  private async processNotesComparison(
+    sessionId: string,
+    notes: Part2Notes,
+    cueCard: {description: string; points: string[]},
+    spoken: string,
+  ) {
+    if (!this.client || !this.supabaseSession) return;
+
+    let comparison: NotesComparison;
+    try {
+      const sketchPng = notes.sketch
+        ? encode(new Uint8Array(await notes.sketch.arrayBuffer()))
+        : null;
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildNotesComparisonRequest(
+          cueCard,
+          notes.text,
+          sketchPng,
+          spoken,
+        ),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: NOTES_COMPARISON_SCHEMA,
+        },
+      });
+      comparison = parseNotesComparison(response.text);
+    } catch (e) {
+      console.error(`Error comparing notes for session ${sessionId}:`, e);
+      return;
+    }
+
+    if (supabaseFeatures) {
+      const {error} = await supabase
+        .from('part2_long_turns')
+        .update({notes_comparison: comparison})
+        .eq('session_id', sessionId);
+      if (error) {
+        console.error(
+          `Error saving notes comparison for session ${sessionId}:`,
+          error.message,
+        );
+        return;
+      }
+    }
+
+    const saved = this.sessionNotes[sessionId];
+    if (saved) {
+      this.sessionNotes = {
+        ...this.sessionNotes,
+        [sessionId]: {...saved, comparison},
+      };
+    }
+  }
+
+  private async loadSketch(sessionId: string) {
+    const path = this.sessionNotes[sessionId]?.sketchPath;
+    if (!path || this.sketchUrls[sessionId]) return;
+
+    const {data, error} = await supabase.storage
+      .from('session-notes')
+      .createSignedUrl(path, 60 * 60);
+
+    if (error) {
+      console.error('Error loading note sketch:', error.message);
+      return;
+    }
+
+    this.sketchUrls = {...this.sketchUrls, [sessionId]: data.signedUrl};
+  }
+
+  /**
+   * Stops the long turn at 2:00 and lets the examiner ask the rounding-off
+   * questions. Playback is no longer muted from here on.
+   */
+  private startPart2RoundingOff() {
+    if (!this.isRecording || !this.examSession) {
+      this.finishPart2();
+      return;
+    }
+    this.part2State = 'rounding-off';
+    this.examSession.sendInstruction(PART2_ROUND_OFF_NUDGE, true);
+    this.part2RoundOffTimeout = window.setTimeout(
+      () => this.finishPart2(),
+      PART2_ROUND_OFF_MAX_MS,
+    );
+  }
+
+  private finishPart2() {
+    if (this.part2RoundOffTimeout) {
+      clearTimeout(this.part2RoundOffTimeout);
+      this.part2RoundOffTimeout = null;
+    }
+    if (this.part2State === 'finished') return;
+    if (this.isFullTest) {
+      this.advanceFullTest();
+    } else {
+      this.stopCurrentSession(); // Automatically stop the session
+    }
+  }
+
+  private async startFullTest() {
+    if (!this.supabaseSession) return;
+
+    const examId = crypto.randomUUID();
+    this.currentExamId = examId;
+    if (supabaseFeatures) {
+      const {error} = await supabase.from('exams').insert({
+        id: examId,
+        user_id: this.supabaseSession.user.id,
+      });
+      if (error) {
+        console.error('Error creating exam record:', error.message);
+      }
+    }
+
+    await this.startFullTestPart('part1');
+  }
+
+  private async startFullTestPart(part: 'part1' | 'part2' | 'part3') {
+    this.currentPart = part;
+
+    if (part === 'part1') {
+      const instruction = await this.part1Instruction();
+      await this.startRecording(
+        `${instruction}\n${FULL_TEST_PART1_INTRO}`,
+        undefined,
+        {
+          thinkingConfig: {thinkingBudget: 0},
+        },
+      );
+    } else if (part === 'part2') {
+      this.part2CueCard = null;
+      this.part2SourceCard = null;
+      this.part2Topic = null;
+      this.part2State = 'fetching';
+      this.part2PreparationTimeLeft = 60;
+      this.part2SpeakingTimeLeft = 120;
+      if (await this.fetchCueCard()) {
+        return;
+      }
+    } else {
+      const topic = this.part2TopicForPart3!;
+      const instruction = await this.part3Instruction(topic);
+      await this.startRecording(
+        `${instruction}\n${FULL_TEST_PART3_INTRO(topic)}`,
+        undefined,
+        {
+          thinkingConfig: {thinkingBudget: 0},
+        },
+      );
+    }
 
-      const points = [
-        cueCardData.bullet_a,
-        cueCardData.bullet_b,
-        cueCardData.bullet_c,
-        cueCardData.bullet_d,
-      ].filter((p): p is string => !!p && p.trim() !== '');
+    if (!this.isRecording) {
+      console.error(`Could not start ${part} of the full test.`);
+      this.endFullTest();
+    }
+  }
 
-      if (!cueCardData.title || points.length === 0) {
-        console.log('Incomplete data received:', cueCardData);
-        throw new Error(
-          'The fetched cue card is incomplete. It is missing a title or bullet points.',
+  private startPartClock() {
+    this.stopPartClock();
+    this.partElapsedSeconds = 0;
+    this.partClockInterval = window.setInterval(() => {
+      // Time spent reconnecting does not count towards the part.
+      if (this.connectionState !== 'live') return;
+      this.partElapsedSeconds += 1;
+
+      const part = this.currentPart as 'part1' | 'part3';
+      if (
+        this.partClockPhase === 'running' &&
+        this.partElapsedSeconds >= PART_WRAP_UP_SECONDS
+      ) {
+        this.partClockPhase = 'wrapping-up';
+        this.examSession?.sendInstruction(PART_WRAP_UP_NUDGE);
+      } else if (
+        this.partClockPhase === 'wrapping-up' &&
+        this.partElapsedSeconds >= PART_TARGET_SECONDS
+      ) {
+        this.partClockPhase = 'closing';
+        // In a full test the closing line also leads into the next part.
+        this.partClosingLine = this.isFullTest
+          ? FULL_TEST_TRANSITIONS[part]
+          : PART_CLOSING_LINES[part];
+        this.partClosingTurnCount = this.examSession?.transcripts.length ?? 0;
+        this.examSession?.sendInstruction(
+          PART_CLOSING_NUDGE(this.partClosingLine),
+        );
+        this.partClosingTimeout = window.setTimeout(
+          () => this.finishTimedPart(false),
+          PART_CLOSING_GRACE_MS,
         );
       }
+    }, 1000);
+  }
 
-      this.part2Topic = cueCardData.title;
-      this.part2CueCard = {
-        description: cueCardData.title,
-        points: points,
-      };
-      this.transcripts = []; // Clear the "fetching" message
-      this.startPart2Preparation();
-    } catch (e) {
-      console.error('Error fetching cue card:', e);
-      const errorMessage =
-        e instanceof Error ? e.message : 'An unknown error occurred.';
+  private stopPartClock() {
+    // A part stopped mid-closing must not end the next session.
+    this.partClockPhase = 'running';
+    if (this.partClockInterval) {
+      clearInterval(this.partClockInterval);
+      this.partClockInterval = null;
+    }
+    if (this.partClosingTimeout) {
+      clearTimeout(this.partClosingTimeout);
+      this.partClosingTimeout = null;
+    }
+  }
+
+  /**
+   * Ends Part 1 or 3 once the examiner has closed it, or once the grace period
+   * for the closing line has run out.
+   */
+  private finishTimedPart(closingSpoken: boolean) {
+    if (this.partClockPhase !== 'closing' || !this.isRecording) return;
+    this.stopPartClock();
+    if (this.isFullTest) {
+      this.advanceFullTest(closingSpoken);
+    } else {
+      this.stopCurrentSession();
+    }
+  }
 
+  /**
+   * Moves a full test on to its next part. Unless the examiner has already
+   * said it, the transition line is spoken in the session that is ending.
+   */
+  private async advanceFullTest(transitionSpoken = false) {
+    if (!this.isFullTest || !this.currentPart) return;
+
+    const examId = this.currentExamId;
+    const finishedPart = this.currentPart;
+    const transition = FULL_TEST_TRANSITIONS[finishedPart];
+    if (!transitionSpoken) {
+      transitionSpoken = await this.speakTransition(transition);
+      // The candidate may have ended the test while the examiner spoke.
+      if (!this.isFullTest || this.currentExamId !== examId) return;
+    }
+    await this.stopCurrentSession();
+    if (!transitionSpoken) {
       this.transcripts = [
-        {
-          speaker: 'Examiner',
-          text: `Sorry, there was an error fetching the cue card. Please try again. Details: ${errorMessage}`,
-        },
+        ...this.transcripts,
+        {speaker: 'Examiner', text: transition},
       ];
-      this.part2State = 'idle';
     }
+
+    if (finishedPart === 'part3') {
+      await this.completeFullTest();
+      return;
+    }
+    this.fullTestTranscripts = [
+      ...this.fullTestTranscripts,
+      ...this.transcripts.map(({speaker, text}) => ({speaker, text})),
+    ];
+    this.transcripts = [];
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, FULL_TEST_TRANSITION_MS),
+    );
+    // The candidate may have ended the test during the transition.
+    if (!this.isFullTest || this.currentExamId !== examId) return;
+
+    await this.startFullTestPart(finishedPart === 'part1' ? 'part2' : 'part3');
   }
 
-  private startPart2Preparation() {
-    this.part2State = 'preparing';
-    this.part2PreparationTimeLeft = 60;
+  /**
+   * Has the examiner say a transition line and resolves once it has been
+   * played, with whether the examiner said it in time.
+   */
+  private speakTransition(line: string): Promise<boolean> {
+    const examSession = this.examSession;
+    if (!this.isRecording || !examSession) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      const finish = (spoken: boolean) => {
+        clearTimeout(timeout);
+        unsubscribe();
+        window.setTimeout(
+          () => resolve(spoken),
+          spoken ? this.audioPlayback.remainingMs : 0,
+        );
+      };
+      const timeout = window.setTimeout(
+        () => finish(false),
+        FULL_TEST_TRANSITION_MAX_MS,
+      );
+      const unsubscribe = examSession.on('turn-complete', ({transcripts}) => {
+        if (transcripts[transcripts.length - 1]?.speaker === 'Examiner') {
+          finish(true);
+        }
+      });
+      examSession.sendInstruction(FULL_TEST_TRANSITION_NUDGE(line), true);
+    });
+  }
 
-    this.part2TimerInterval = window.setInterval(() => {
-      this.part2PreparationTimeLeft -= 1;
-      if (this.part2PreparationTimeLeft <= 0) {
-        clearInterval(this.part2TimerInterval!);
-        this.part2TimerInterval = null;
-        this.startPart2SpeakingSession();
-      }
-    }, 1000);
+  private async linkSessionToExam() {
+    if (
+      !supabaseFeatures ||
+      !this.currentExamId ||
+      !this.currentSessionId ||
+      !this.currentPart
+    ) {
+      return;
+    }
+
+    const {error} = await supabase
+      .from('exams')
+      .update({[`${this.currentPart}_session_id`]: this.currentSessionId})
+      .eq('id', this.currentExamId);
+
+    if (error) {
+      console.error('Error linking session to exam:', error.message);
+    }
   }
 
-  private async startPart2SpeakingSession() {
-    this.part2State = 'speaking';
-    this.part2SpeakingTimeLeft = 120;
+  private async completeFullTest() {
+    const examId = this.currentExamId;
+    this.endFullTest();
+    if (!examId || !supabaseFeatures) return;
 
-    // The model is instructed to be silent. We request AUDIO modality to ensure
-    // the connection remains active and provides input transcriptions.
-    // The default endOfSpeechTimeout is used to allow for real-time transcription.
-    await this.startRecording(PART2_INSTRUCTION, [Modality.AUDIO], {});
+    const {error} = await supabase
+      .from('exams')
+      .update({completed_at: new Date().toISOString()})
+      .eq('id', examId);
 
-    this.part2TimerInterval = window.setInterval(() => {
-      this.part2SpeakingTimeLeft -= 1;
-      if (this.part2SpeakingTimeLeft <= 0) {
-        clearInterval(this.part2TimerInterval!);
-        this.part2TimerInterval = null;
-        this.stopCurrentSession(); // Automatically stop the session
+    if (error) {
+      console.error('Error completing exam:', error.message);
+    }
+  }
+
+  private endFullTest() {
+    // Abandoning the test mid Part 2 must also cancel the preparation timer,
+    // otherwise the long turn would still start on its own.
+    if (this.isFullTest && this.part2TimerInterval) {
+      clearInterval(this.part2TimerInterval);
+      this.part2TimerInterval = null;
+      if (this.part2State === 'preparing') {
+        this.part2State = 'idle';
       }
-    }, 1000);
+    }
+    this.isFullTest = false;
+    this.currentExamId = null;
   }
 
   private handleOutsideClick = (event: MouseEvent) => {
@@ -1717,53 +3718,186 @@ export class GdmLiveAudio extends LitElement {
     this.fetchHistory();
   }
 
+  private async openDashboard() {
+    this.isProfileMenuOpen = false;
+    this.endFullTest();
+    await this.stopCurrentSession();
+    this.currentView = 'dashboard';
+  }
+
+  private async openStudyPlan() {
+    this.isProfileMenuOpen = false;
+    this.endFullTest();
+    await this.stopCurrentSession();
+    this.currentView = 'study-plan';
+  }
+
+  private async openVocabulary() {
+    this.isProfileMenuOpen = false;
+    this.endFullTest();
+    await this.stopCurrentSession();
+    this.currentView = 'vocabulary';
+  }
+
+  /** Opens the intro for the session a study plan drill points at. */
+  private async handleStartDrill(e: CustomEvent<StudyDrill>) {
+    const drill = e.detail;
+    this.currentView = 'app';
+    if (drill.kind === 'cueCard') {
+      this.cueCardSelection = {category: drill.cueCardCategory};
+    } else if (drill.kind === 'part3Theme') {
+      this.part2TopicForPart3 = drill.part3Theme!;
+      this.part3SourceCard = null;
+      this.part3DrillTheme = drill.part3Theme!;
+    }
+
+    await this.handlePartSelect(drillPart(drill));
+    if (this.isIntroModalOpen) {
+      const words = drill.words?.length
+        ? ` Try to use: ${drill.words.join(', ')}.`
+        : '';
+      this.introModalContent = {
+        ...this.introModalContent,
+        instructions: [
+          ...this.introModalContent.instructions,
+          `Study plan focus: ${drill.instructions}${words}`,
+        ],
+      };
+    }
+  }
+
+  private async openAdminConsole() {
+    this.isProfileMenuOpen = false;
+    this.endFullTest();
+    await this.stopCurrentSession();
+    this.currentView = 'admin';
+  }
+
+  private openSessionDetail(sessionId: string) {
+    this.isHistoryPanelOpen = false;
+    window.location.hash = `#/session/${sessionId}`;
+  }
+
+  private closeSessionDetail() {
+    // Drop the route without leaving an empty '#' in the address bar.
+    history.pushState(null, '', window.location.pathname);
+    this.handleRoute();
+  }
+
+  private async shareSession(sessionId: string) {
+    if (!this.supabaseSession) return;
+    try {
+      const link = await createShareLink(
+        this.supabaseSession.user.id,
+        sessionId,
+      );
+      this.shareLinks = {...this.shareLinks, [sessionId]: link};
+    } catch (error) {
+      console.error('Error creating share link:', error.message);
+    }
+  }
+
+  private async loadSharedReport(token: string) {
+    this.sharedReport = null;
+    this.sharedReportError = null;
+    if (!supabaseFeatures) {
+      this.sharedReportError =
+        'Shared reports are not available with local data.';
+      return;
+    }
+    try {
+      this.sharedReport = await fetchSharedReport(token);
+    } catch (error) {
+      console.error('Error loading shared report:', error.message);
+      this.sharedReportError = 'This report link is invalid or has expired.';
+    }
+  }
+
   private closeHistoryPanel() {
     this.isHistoryPanelOpen = false;
   }
 
   private async signInWithGoogle() {
-    await supabase.auth.signInWithOAuth({provider: 'google'});
+    await repository.signIn();
   }
 
   private async signOut() {
-    await supabase.auth.signOut();
+    await repository.signOut();
   }
 
   private async fetchUserProfile() {
     if (!this.supabaseSession) return;
 
-    const {data, error} = await supabase
-      .from('profiles')
-      .select('credits')
-      .eq('id', this.supabaseSession.user.id)
-      .maybeSingle();
-
-    if (error) {
+    try {
+      const profile = await repository.fetchProfile(
+        this.supabaseSession.user.id,
+      );
+      if (profile) {
+        this.userCredits = profile.credits;
+        this.isAdmin = profile.isAdmin;
+        this.examinerPersona = profile.examinerPersona;
+      }
+    } catch (error) {
       console.error('Error fetching user profile:', error.message);
-    } else if (data) {
-      this.userCredits = data.credits;
     }
   }
 
+  private async saveExaminerPersona(persona: ExaminerPersona) {
+    this.examinerPersona = persona;
+    this.isPersonaModalOpen = false;
+    if (!this.supabaseSession) return;
+
+    try {
+      await repository.saveExaminerPersona(
+        this.supabaseSession.user.id,
+        persona,
+      );
+    } catch (error) {
+      console.error('Error saving examiner settings:', error.message);
+    }
+  }
+
+  private handlePersonaSubmit(e: SubmitEvent) {
+    e.preventDefault();
+    const form = new FormData(e.target as HTMLFormElement);
+    this.saveExaminerPersona(
+      parsePersona({
+        voiceName: form.get('voiceName'),
+        languageCode: form.get('languageCode'),
+        pace: form.get('pace'),
+        strictness: form.get('strictness'),
+        silencePromptSeconds: form.get('silencePromptSeconds'),
+      }),
+    );
+  }
+
   private async deductCredits() {
-    if (!this.isRecording || this.userCredits === null) return;
+    if (
+      !this.isRecording ||
+      !this.supabaseSession ||
+      this.userCredits === null
+    ) {
+      return;
+    }
+    // Time spent waiting for the examiner to reconnect is not charged.
+    if (this.connectionState !== 'live') return;
 
     const secondsToDeduct = this.creditUpdateIntervalMs / 1000;
 
-    const {data, error} = await supabase.rpc('deduct_credits', {
-      seconds_to_deduct: secondsToDeduct,
-    });
-
-    if (error) {
+    try {
+      this.userCredits = await repository.deductCredits(
+        this.supabaseSession.user.id,
+        secondsToDeduct,
+      );
+    } catch (error) {
       console.error('Error deducting credits:', error);
       // Optional: Stop the session if deduction fails to prevent misuse.
       // await this.stopCurrentSession();
       return;
     }
 
-    this.userCredits = data;
-
     if (this.userCredits <= 0) {
+      this.endFullTest();
       await this.stopCurrentSession();
       this.isOutOfCreditsModalOpen = true;
     }
@@ -1806,12 +3940,13 @@ export class GdmLiveAudio extends LitElement {
   }
 
   private async confirmStopSession() {
+    this.endFullTest();
     await this.stopCurrentSession();
     this.isStopConfirmModalOpen = false;
   }
 
   private async handleVisualizerClick() {
-    if (this.isRecording) {
+    if (this.isRecording || this.isFullTest) {
       this.requestStopSession();
     } else if (this.currentPart) {
       // If a part is selected but not running, start it.
@@ -1878,6 +4013,74 @@ export class GdmLiveAudio extends LitElement {
     `;
   }
 
+  private renderPersonaModal() {
+    const persona = this.examinerPersona;
+    const option = (value: string, selected: string, label = value) =>
+      html`<option value=${value} ?selected=${value === selected}>
+        ${label[0].toUpperCase() + label.slice(1)}
+      </option>`;
+    return html`
+      <div class="modal-overlay">
+        <form
+          class="modal-content settings-form"
+          @submit=${this.handlePersonaSubmit}>
+          <h2>Examiner Settings</h2>
+          <p>
+            Changes apply from your next session. Every part of the test uses
+            the same examiner.
+          </p>
+          <label>
+            Voice
+            <select name="voiceName">
+              ${EXAMINER_VOICES.map((v) => option(v, persona.voiceName))}
+            </select>
+          </label>
+          <label>
+            Accent
+            <select name="languageCode">
+              ${EXAMINER_ACCENTS.map(({languageCode, label}) =>
+                option(languageCode, persona.languageCode, label),
+              )}
+            </select>
+          </label>
+          <label>
+            Speaking pace
+            <select name="pace">
+              ${EXAMINER_PACES.map((p) => option(p, persona.pace))}
+            </select>
+          </label>
+          <label>
+            Strictness
+            <select name="strictness">
+              ${EXAMINER_STRICTNESS.map((s) => option(s, persona.strictness))}
+            </select>
+          </label>
+          <label>
+            Part 2 prompt after silence
+            <select name="silencePromptSeconds">
+              ${SILENCE_PROMPT_SECONDS.map((seconds) =>
+                option(
+                  String(seconds),
+                  String(persona.silencePromptSeconds),
+                  seconds ? `${seconds} seconds` : 'never',
+                ),
+              )}
+            </select>
+          </label>
+          <div class="modal-button-container">
+            <button
+              type="button"
+              class="modal-button secondary"
+              @click=${() => (this.isPersonaModalOpen = false)}>
+              Cancel
+            </button>
+            <button type="submit" class="modal-button">Save</button>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+
   private renderIntroModal() {
     if (!this.isIntroModalOpen || !this.introModalContent) return '';
     return html`
@@ -1889,6 +4092,9 @@ export class GdmLiveAudio extends LitElement {
               (i) => html`<li>${i}</li>`,
             )}
           </ul>
+          ${this.currentPart === 'part2' && !this.isFullTest
+            ? this.renderCueCardPicker()
+            : ''}
           <div class="confirmation-container">
             <input
               type="checkbox"
@@ -1911,6 +4117,40 @@ export class GdmLiveAudio extends LitElement {
     `;
   }
 
+  private renderCueCardPicker() {
+    const {category, cardId} = this.cueCardSelection;
+    return html`
+      <div class="cue-card-picker">
+        <label>
+          Topic
+          <select @change=${this.handleCueCardCategoryChange}>
+            <option value="" ?selected=${!category}>Any category</option>
+            ${CUE_CARD_CATEGORIES.map(
+              (c) =>
+                html`<option value=${c} ?selected=${category === c}>
+                  ${c[0].toUpperCase() + c.slice(1)}
+                </option>`,
+            )}
+          </select>
+        </label>
+        <label>
+          Cue card
+          <select @change=${this.handleCueCardChange}>
+            <option value="" ?selected=${!cardId}>
+              Surprise me (a card you haven't tried)
+            </option>
+            ${this.cueCardOptions.map(
+              (card) =>
+                html`<option value=${card.id} ?selected=${cardId === card.id}>
+                  ${card.title}${card.difficulty ? ` (${card.difficulty})` : ''}
+                </option>`,
+            )}
+          </select>
+        </label>
+      </div>
+    `;
+  }
+
   private renderPricingCard(
     title: string,
     price: string,
@@ -2010,11 +4250,114 @@ export class GdmLiveAudio extends LitElement {
     `;
   }
 
-  private renderPricingPage() {
+  private renderPricingPage() {
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">AI IELTS Examiner</div>
+          <button
+            class="google-signin-button"
+            @click=${() => (this.currentView = 'app')}>
+            Back to Practice
+          </button>
+        </header>
+        <main>
+          <section class="pricing-section" style="padding-top: 5vh;">
+            <h2>Upgrade Your Plan</h2>
+            <div class="pricing-container">
+              ${this.renderPricingCard(
+                'Starter',
+                '$9 / mo',
+                [
+                  '100 Minutes / Month',
+                  'Credits reset monthly',
+                  'Detailed Feedback & History',
+                ],
+                'starter',
+                false,
+              )}
+              ${this.renderPricingCard(
+                'Pro',
+                '$19 / mo',
+                [
+                  '300 Minutes / Month',
+                  'Credits reset monthly',
+                  'Detailed Feedback & History',
+                ],
+                'pro',
+                true,
+                'SAVE 30%',
+              )}
+            </div>
+          </section>
+        </main>
+      </div>
+    `;
+  }
+
+  private renderAdminPage() {
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">Question Bank</div>
+          <button
+            class="google-signin-button"
+            @click=${() => (this.currentView = 'app')}>
+            Back to Practice
+          </button>
+        </header>
+        <main>
+          <gdm-admin-console></gdm-admin-console>
+        </main>
+      </div>
+    `;
+  }
+
+  private renderDashboardPage() {
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">Your Progress</div>
+          <button
+            class="google-signin-button"
+            @click=${() => (this.currentView = 'app')}>
+            Back to Practice
+          </button>
+        </header>
+        <main>
+          <gdm-progress-dashboard
+            .userId=${this.supabaseSession!.user.id}></gdm-progress-dashboard>
+        </main>
+      </div>
+    `;
+  }
+
+  private renderStudyPlanPage() {
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">Study Plan</div>
+          <button
+            class="google-signin-button"
+            @click=${() => (this.currentView = 'app')}>
+            Back to Practice
+          </button>
+        </header>
+        <main>
+          <gdm-study-plan
+            .userId=${this.supabaseSession!.user.id}
+            .client=${this.client}
+            @start-drill=${this.handleStartDrill}></gdm-study-plan>
+        </main>
+      </div>
+    `;
+  }
+
+  private renderVocabularyPage() {
     return html`
       <div class="landing-page">
         <header class="landing-header">
-          <div class="landing-logo">AI IELTS Examiner</div>
+          <div class="landing-logo">Vocabulary Notebook</div>
           <button
             class="google-signin-button"
             @click=${() => (this.currentView = 'app')}>
@@ -2022,46 +4365,14 @@ export class GdmLiveAudio extends LitElement {
           </button>
         </header>
         <main>
-          <section class="pricing-section" style="padding-top: 5vh;">
-            <h2>Upgrade Your Plan</h2>
-            <div class="pricing-container">
-              ${this.renderPricingCard(
-                'Starter',
-                '$9 / mo',
-                [
-                  '100 Minutes / Month',
-                  'Credits reset monthly',
-                  'Detailed Feedback & History',
-                ],
-                'starter',
-                false,
-              )}
-              ${this.renderPricingCard(
-                'Pro',
-                '$19 / mo',
-                [
-                  '300 Minutes / Month',
-                  'Credits reset monthly',
-                  'Detailed Feedback & History',
-                ],
-                'pro',
-                true,
-                'SAVE 30%',
-              )}
-            </div>
-          </section>
+          <gdm-vocabulary-notebook
+            .userId=${this.supabaseSession!.user.id}></gdm-vocabulary-notebook>
         </main>
       </div>
     `;
   }
 
   private renderHistoryPanel() {
-    const sortedSessionIds = Object.keys(this.chatHistory).sort((a, b) => {
-      const dateA = new Date(this.chatHistory[a][0].created_at).getTime();
-      const dateB = new Date(this.chatHistory[b][0].created_at).getTime();
-      return dateB - dateA; // Sort descending
-    });
-
     return html`
       <div class="history-panel ${this.isHistoryPanelOpen ? 'open' : ''}">
         <div class="history-header">
@@ -2069,42 +4380,611 @@ export class GdmLiveAudio extends LitElement {
           <button @click=${this.closeHistoryPanel}>&times;</button>
         </div>
         <div class="history-content">
-          ${sortedSessionIds.length === 0
-            ? html`<p>No history found.</p>`
-            : sortedSessionIds.map(
-                (sessionId) => html`
-                  <div class="history-session">
-                    <h3>
-                      Session from
-                      ${new Date(
-                        this.chatHistory[sessionId][0].created_at,
-                      ).toLocaleString()}
-                    </h3>
-                    ${this.chatHistory[sessionId].map(
-                      (msg) => html`
-                        <div
-                          class="history-message ${msg.speaker.toLowerCase()}">
-                          <strong>${msg.speaker}</strong>
-                          <p>${msg.text}</p>
-                        </div>
-                      `,
-                    )}
-                    ${this.sessionFeedback[sessionId]
-                      ? html`
-                          <div class="feedback-section">
-                            <h4>Feedback</h4>
-                            <p>${this.sessionFeedback[sessionId]}</p>
-                          </div>
-                        `
-                      : ''}
-                  </div>
-                `,
+          ${this.renderHistoryFilters()} ${this.renderFluencyTrend()}
+          ${this.historySessionIds.length === 0
+            ? html`<p>
+                ${this.isHistoryLoading ? 'Loading...' : 'No history found.'}
+              </p>`
+            : this.historySessionIds.map((sessionId) =>
+                this.renderHistorySession(sessionId),
+              )}
+          ${this.hasMoreHistory
+            ? html`<button
+                class="history-more-button"
+                ?disabled=${this.isHistoryLoading}
+                @click=${() => this.fetchHistory(this.historyPage + 1)}>
+                ${this.isHistoryLoading ? 'Loading...' : 'Load more'}
+              </button>`
+            : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderHistoryFilters() {
+    const filters = this.historyFilters;
+    return html`
+      <form class="history-filters" @submit=${this.handleHistoryFilterSubmit}>
+        <input
+          type="search"
+          name="query"
+          placeholder="Search transcripts"
+          .value=${filters.query} />
+        <select name="part" .value=${filters.part}>
+          <option value="">All parts</option>
+          <option value="part1">Part 1</option>
+          <option value="part2">Part 2</option>
+          <option value="part3">Part 3</option>
+        </select>
+        <select name="minBand">
+          <option value="">Any band</option>
+          ${[5, 5.5, 6, 6.5, 7, 7.5, 8].map(
+            (band) =>
+              html`<option value=${band} ?selected=${band === filters.minBand}>
+                Band ${band}+
+              </option>`,
+          )}
+        </select>
+        <input
+          name="topic"
+          placeholder="Cue card topic"
+          .value=${filters.topic} />
+        <label>
+          From
+          <input type="date" name="from" .value=${filters.from} />
+        </label>
+        <label>
+          To
+          <input type="date" name="to" .value=${filters.to} />
+        </label>
+        <button type="submit">Apply</button>
+        <button type="button" @click=${this.clearHistoryFilters}>Clear</button>
+      </form>
+    `;
+  }
+
+  private renderHistorySession(sessionId: string) {
+    const summary = this.sessionSummaries[sessionId];
+    const expanded = this.expandedSessionIds[sessionId];
+    const heading = [
+      this.sessionExamParts[sessionId] ? 'Full Test' : null,
+      summary.part ? `Part ${summary.part.slice(-1)}` : null,
+      summary.topic,
+      new Date(summary.startedAt).toLocaleString(),
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    return html`
+      <div class="history-session">
+        <h3>
+          <button
+            class="history-session-toggle"
+            aria-expanded=${expanded ? 'true' : 'false'}
+            @click=${() => this.toggleHistorySession(sessionId)}>
+            ${expanded ? '▾' : '▸'} ${heading}
+          </button>
+          ${summary.overallBand !== null
+            ? html`<span class="history-band">
+                Band ${summary.overallBand}
+              </span>`
+            : ''}
+          <button
+            class="history-open-button"
+            @click=${() => this.openSessionDetail(sessionId)}>
+            Open
+          </button>
+        </h3>
+        ${!expanded
+          ? ''
+          : this.chatHistory[sessionId]
+            ? this.renderSessionBody(sessionId)
+            : html`<p>Loading transcript...</p>`}
+      </div>
+    `;
+  }
+
+  private renderSessionBody(sessionId: string) {
+    return html`
+      ${this.renderRecording(sessionId)}
+      ${this.chatHistory[sessionId].map((msg, index) =>
+        this.renderHistoryMessage(sessionId, msg, index),
+      )}
+      ${this.renderTurnTiming(sessionId)} ${this.renderLongTurn(sessionId)}
+      ${this.renderNotes(sessionId)}
+      ${this.sessionFeedback[sessionId]
+        ? this.renderFeedback(this.sessionFeedback[sessionId])
+        : ''}
+      ${this.sessionMetrics[sessionId]
+        ? this.renderFluencyMetrics(this.sessionMetrics[sessionId].metrics)
+        : ''}
+      ${this.sessionPronunciation[sessionId]
+        ? this.renderPronunciation(this.sessionPronunciation[sessionId])
+        : ''}
+      ${this.sessionGrammar[sessionId]
+        ? this.renderGrammar(this.sessionGrammar[sessionId])
+        : ''}
+    `;
+  }
+
+  private renderSessionSummary(
+    summary: SessionSummary | undefined,
+    startedAt: string,
+  ) {
+    return html`
+      <dl class="metrics-grid session-summary">
+        ${summary?.part
+          ? html`<dt>Part</dt>
+              <dd>${summary.part.slice(-1)}</dd>`
+          : ''}
+        ${summary?.topic
+          ? html`<dt>Topic</dt>
+              <dd>${summary.topic}</dd>`
+          : ''}
+        <dt>Date</dt>
+        <dd>${new Date(startedAt).toLocaleString()}</dd>
+        ${summary?.durationSeconds != null
+          ? html`<dt>Duration</dt>
+              <dd>${this.formatClock(summary.durationSeconds)}</dd>`
+          : ''}
+        ${summary?.overallBand != null
+          ? html`<dt>Overall band</dt>
+              <dd>${summary.overallBand}</dd>`
+          : ''}
+      </dl>
+    `;
+  }
+
+  private renderSessionDetailPage() {
+    const sessionId = this.detailSessionId!;
+    const messages = this.chatHistory[sessionId];
+    const shareLink = this.shareLinks[sessionId];
+
+    let body;
+    if (messages?.length) {
+      body = html`
+        ${this.renderSessionSummary(
+          this.sessionSummaries[sessionId],
+          messages[0].created_at,
+        )}
+        ${supabaseFeatures
+          ? html`<div class="share-panel">
+              ${shareLink
+                ? html`
+                    <input readonly .value=${shareLink.url} />
+                    <button
+                      @click=${() =>
+                        navigator.clipboard.writeText(shareLink.url)}>
+                      Copy
+                    </button>
+                    <p>
+                      Anyone with this link can view this report until
+                      ${shareLink.expiresAt.toLocaleDateString()}.
+                    </p>
+                  `
+                : html`<button @click=${() => this.shareSession(sessionId)}>
+                    Share with tutor
+                  </button>`}
+            </div>`
+          : ''}
+        <div class="history-session">${this.renderSessionBody(sessionId)}</div>
+      `;
+    } else {
+      body = html`<p>
+        ${messages ? 'Session not found.' : 'Loading session...'}
+      </p>`;
+    }
+
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">Session Report</div>
+          <button
+            class="google-signin-button"
+            @click=${this.closeSessionDetail}>
+            Back to Practice
+          </button>
+        </header>
+        <main class="session-detail">${body}</main>
+      </div>
+    `;
+  }
+
+  private renderSharedReport() {
+    const report = this.sharedReport;
+
+    let body;
+    if (this.sharedReportError) {
+      body = html`<p>${this.sharedReportError}</p>`;
+    } else if (!report) {
+      body = html`<p>Loading report...</p>`;
+    } else {
+      body = html`
+        ${this.renderSessionSummary(report.session, report.session.startedAt)}
+        <div class="history-session">
+          ${report.transcript.map(
+            (msg) => html`
+              <div class="history-message ${msg.speaker.toLowerCase()}">
+                <strong>${msg.speaker}</strong>
+                <p>${msg.text}</p>
+              </div>
+            `,
+          )}
+          ${report.feedback ? this.renderFeedback(report.feedback) : ''}
+          ${report.metrics ? this.renderFluencyMetrics(report.metrics) : ''}
+          ${report.pronunciation
+            ? this.renderPronunciation(report.pronunciation)
+            : ''}
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="landing-page">
+        <header class="landing-header">
+          <div class="landing-logo">AI IELTS Examiner · Shared Report</div>
+        </header>
+        <main class="session-detail">${body}</main>
+      </div>
+    `;
+  }
+
+  private renderFeedback({
+    feedback,
+    report,
+  }: {
+    feedback: string;
+    report: BandReport | null;
+  }) {
+    if (!report) {
+      return html`
+        <div class="feedback-section">
+          <h4>Feedback</h4>
+          <p>${feedback}</p>
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="feedback-section report-card">
+        <div class="report-overall">
+          <h4>Overall Band</h4>
+          <span class="band-score">${report.overallBand.toFixed(1)}</span>
+        </div>
+        ${BAND_CRITERIA.map(
+          ({key, label}) => html`
+            <div class="report-criterion">
+              <div class="report-criterion-header">
+                <span>${label}</span>
+                <span class="band-score">${report[key].band}</span>
+              </div>
+              <p>${report[key].justification}</p>
+              ${report[key].quotes.map(
+                (quote) => html`<blockquote>“${quote}”</blockquote>`,
+              )}
+            </div>
+          `,
+        )}
+        <p>${report.summary}</p>
+        ${report.vocabulary?.length
+          ? html`
+              <div class="report-criterion report-vocabulary">
+                <div class="report-criterion-header">
+                  <span>Words to learn</span>
+                  <span>Added to your notebook</span>
+                </div>
+                <ul>
+                  ${report.vocabulary.map(
+                    ({word, definition, example}) => html`
+                      <li>
+                        <strong>${word}</strong> – ${definition}
+                        <blockquote>${example}</blockquote>
+                      </li>
+                    `,
+                  )}
+                </ul>
+              </div>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Underlines the grammar errors in a line with their correction as a
+   * tooltip, and highlights the mispronounced words.
+   */
+  private renderTranscriptText(
+    text: string,
+    issues?: Map<string, string>,
+    errors?: GrammarError[],
+  ) {
+    return splitSpans(text, errors).map(({text: segment, mark: error}) =>
+      error
+        ? html`<span
+            class="grammar-error"
+            title="${grammarCategoryLabel(error.category)}: ${error.correction}"
+            >${this.renderPronunciationIssues(segment, issues)}</span
+          >`
+        : this.renderPronunciationIssues(segment, issues),
+    );
+  }
+
+  /** Highlights the words flagged in `issues` with their tip as a tooltip. */
+  private renderPronunciationIssues(
+    text: string,
+    issues?: Map<string, string>,
+  ) {
+    if (!issues || issues.size === 0) return text;
+
+    return text.split(/(\s+)/).map((token) => {
+      const word = token.replace(/[^\p{L}'-]/gu, '').toLowerCase();
+      const tip = issues.get(word);
+      return tip
+        ? html`<mark class="pronunciation-issue" title=${tip}>${token}</mark>`
+        : token;
+    });
+  }
+
+  private renderHistoryMessage(
+    sessionId: string,
+    msg: GdmLiveAudio['chatHistory'][string][number],
+    index: number,
+  ) {
+    const messages = this.chatHistory[sessionId];
+    const seekable =
+      !!this.sessionRecordingPaths[sessionId] && msg.audio_offset_ms !== null;
+    // The line being played runs until the next line starts.
+    const position = this.playbackPositionsMs[sessionId];
+    const nextOffset = messages[index + 1]?.audio_offset_ms ?? Infinity;
+    const playing =
+      seekable &&
+      position !== undefined &&
+      position >= msg.audio_offset_ms! &&
+      position < nextOffset;
+
+    return html`
+      <div
+        class="history-message ${msg.speaker.toLowerCase()} ${seekable
+          ? 'seekable'
+          : ''} ${playing ? 'playing' : ''}"
+        @click=${() =>
+          seekable && this.seekRecording(sessionId, msg.audio_offset_ms!)}>
+        <strong>${msg.speaker}</strong>
+        <p>
+          ${msg.turn_index === null
+            ? msg.text
+            : this.renderTranscriptText(
+                msg.text,
+                issuesForTurn(
+                  this.sessionPronunciation[sessionId],
+                  msg.turn_index,
+                ),
+                errorsForTurn(this.sessionGrammar[sessionId], msg.turn_index),
               )}
+        </p>
+      </div>
+    `;
+  }
+
+  private renderLongTurn(sessionId: string) {
+    const longTurn = this.sessionLongTurns[sessionId];
+    if (!longTurn) return '';
+
+    return html`
+      <div class="feedback-section">
+        <h4>Long turn</h4>
+        <dl class="metrics-grid">
+          <dt>Speaking time</dt>
+          <dd>${this.formatClock(longTurn.speakingSeconds)}</dd>
+          <dt>Prompts to continue</dt>
+          <dd>${longTurn.prompts}</dd>
+        </dl>
+        ${longTurn.speakingSeconds < LONG_TURN_MIN_SECONDS
+          ? html`<p>
+              You spoke for less than the one minute minimum. Use your notes to
+              extend each point with an example or a reason.
+            </p>`
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderNotes(sessionId: string) {
+    const notes = this.sessionNotes[sessionId];
+    if (!notes) return '';
+
+    const {comparison} = notes;
+    const list = (title: string, items: string[]) =>
+      items.length
+        ? html`<p><strong>${title}:</strong> ${items.join('; ')}</p>`
+        : '';
+    return html`
+      <div class="feedback-section">
+        <h4>Your notes</h4>
+        ${notes.text ? html`<p class="session-notes">${notes.text}</p>` : ''}
+        ${notes.sketchPath
+          ? this.sketchUrls[sessionId]
+            ? html`<img
+                class="session-sketch"
+                src=${this.sketchUrls[sessionId]}
+                alt="Handwritten notes" />`
+            : html`<button
+                class="recording-button"
+                @click=${() => this.loadSketch(sessionId)}>
+                Show sketch
+              </button>`
+          : ''}
+        ${comparison
+          ? html`
+              ${list('Used', comparison.usedNotes)}
+              ${list('Not used', comparison.unusedNotes)}
+              ${list('Not in your notes', comparison.unplannedPoints)}
+              <p>${comparison.advice}</p>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderTurnTiming(sessionId: string) {
+    const timing = computeTurnTiming(
+      this.chatHistory[sessionId]
+        .filter((msg) => msg.audio_offset_ms !== null)
+        .map((msg) => ({
+          speaker: msg.speaker,
+          startMs: msg.audio_offset_ms!,
+          endMs: msg.audio_end_ms ?? msg.audio_offset_ms!,
+        })),
+    );
+    if (
+      timing.examinerLatencyMs === null &&
+      timing.candidateLatencyMs === null
+    ) {
+      return '';
+    }
+
+    const seconds = (ms: number | null) =>
+      ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`;
+    return html`
+      <div class="feedback-section">
+        <h4>Turn-taking</h4>
+        <dl class="metrics-grid">
+          <dt>Examiner response latency</dt>
+          <dd>${seconds(timing.examinerLatencyMs)}</dd>
+          <dt>Pause before your answers</dt>
+          <dd>${seconds(timing.candidateLatencyMs)}</dd>
+        </dl>
+      </div>
+    `;
+  }
+
+  private renderRecording(sessionId: string) {
+    if (!this.sessionRecordingPaths[sessionId]) return '';
+
+    if (!this.recordingUrls[sessionId]) {
+      return html`
+        <button
+          class="recording-button"
+          @click=${() => this.loadRecording(sessionId)}>
+          &#9654; Listen to this session
+        </button>
+      `;
+    }
+
+    return html`
+      <gdm-session-player
+        data-session-id=${sessionId}
+        .src=${this.recordingUrls[sessionId]}
+        @time-update=${(e: CustomEvent<{currentTime: number}>) =>
+          (this.playbackPositionsMs = {
+            ...this.playbackPositionsMs,
+            [sessionId]: e.detail.currentTime * 1000,
+          })}></gdm-session-player>
+    `;
+  }
+
+  private renderFluencyMetrics(metrics: FluencyMetrics) {
+    return html`
+      <div class="feedback-section">
+        <h4>Fluency</h4>
+        <dl class="metrics-grid">
+          <dt>Words per minute</dt>
+          <dd>${metrics.wordsPerMinute}</dd>
+          <dt>Mean length of run</dt>
+          <dd>${metrics.meanLengthOfRun} words</dd>
+          <dt>Silent pauses</dt>
+          <dd>${metrics.silentPauses} (${metrics.silentPauseSeconds}s)</dd>
+          <dt>Filled pauses</dt>
+          <dd>${metrics.filledPauses}</dd>
+          <dt>Self-corrections</dt>
+          <dd>${metrics.selfCorrections}</dd>
+          <dt>Repetitions</dt>
+          <dd>${metrics.repetitions}</dd>
+        </dl>
+      </div>
+    `;
+  }
+
+  /** Words per minute and mean length of run across sessions, oldest first. */
+  private renderFluencyTrend() {
+    const points = Object.values(this.sessionMetrics).sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+    );
+    if (points.length < 2) return '';
+
+    const width = 320;
+    const height = 100;
+    const polyline = (values: number[]) => {
+      const max = Math.max(...values, 1);
+      return values
+        .map(
+          (value, i) =>
+            `${(i / (values.length - 1)) * width},${
+              height - (value / max) * (height - 10) - 5
+            }`,
+        )
+        .join(' ');
+    };
+
+    return html`
+      <div class="history-session fluency-trend">
+        <h3>Fluency over time</h3>
+        <svg viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+          <polyline
+            class="trend-wpm"
+            points=${polyline(points.map((p) => p.metrics.wordsPerMinute))} />
+          <polyline
+            class="trend-mlr"
+            points=${polyline(points.map((p) => p.metrics.meanLengthOfRun))} />
+        </svg>
+        <div class="trend-legend">
+          <span class="trend-wpm">Words per minute</span>
+          <span class="trend-mlr">Mean length of run</span>
         </div>
       </div>
     `;
   }
 
+  private renderPronunciation(assessment: PronunciationAssessment) {
+    return html`
+      <div class="feedback-section">
+        <h4>Pronunciation</h4>
+        <p>
+          Speech rate: ${assessment.speechRateWpm} words per minute &middot;
+          Intonation: ${assessment.intonation.range}
+        </p>
+        <p>${assessment.intonation.comment}</p>
+        <p>${assessment.summary}</p>
+      </div>
+    `;
+  }
+
+  private renderGrammar({errors, counts}: GrammarAnnotations) {
+    return html`
+      <div class="feedback-section">
+        <h4>Grammar</h4>
+        ${errors.length === 0
+          ? html`<p>No grammar errors were found in your answers.</p>`
+          : html`
+              <p>
+                ${errors.length} errors found. Hover over the underlined words
+                in the transcript to see the corrections.
+              </p>
+              <dl class="metrics-grid">
+                ${GRAMMAR_CATEGORIES.map(
+                  ({key, label}) => html`
+                    <dt>${label}</dt>
+                    <dd>${counts[key]}</dd>
+                  `,
+                )}
+              </dl>
+            `}
+      </div>
+    `;
+  }
+
   private renderPart2CueCard() {
     return html`
       <div class="cue-card-container">
@@ -2121,6 +5001,8 @@ export class GdmLiveAudio extends LitElement {
                   )}
                 </ul>
               </div>
+              <gdm-note-pad
+                ?readonly=${this.part2State !== 'preparing'}></gdm-note-pad>
             `
           : ''}
         ${this.part2CueCard
@@ -2140,27 +5022,116 @@ export class GdmLiveAudio extends LitElement {
                         .padStart(2, '0')}
                   </div>`
                 : ''}
+              ${this.part2State === 'speaking'
+                ? html`
+                    ${this.showShortLongTurnWarning
+                      ? html`<p class="long-turn-warning">
+                          You have spoken for less than a minute. Try to keep
+                          going, or press Done again to finish anyway.
+                        </p>`
+                      : ''}
+                    <button
+                      class="long-turn-done"
+                      @click=${this.handlePart2Done}>
+                      Done
+                    </button>
+                  `
+                : ''}
+              ${this.part2State === 'rounding-off'
+                ? html`<div class="timer">Rounding-off questions</div>`
+                : ''}
             `
           : ''}
       </div>
     `;
   }
 
+  private renderConnectionBanner() {
+    if (this.connectionState === 'reconnecting') {
+      return html`
+        <div class="connection-banner">
+          Connection to the examiner lost. Reconnecting&hellip;
+        </div>
+      `;
+    }
+    if (this.connectionState === 'failed') {
+      return html`
+        <div class="connection-banner failed">
+          The connection to the examiner could not be restored. Your
+          transcript so far has been saved.
+          <button @click=${() => (this.connectionState = 'closed')}>
+            &times;
+          </button>
+        </div>
+      `;
+    }
+    return '';
+  }
+
+  private formatClock(seconds: number) {
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  }
+
+  private renderSessionStatus() {
+    const showClock = this.partClockInterval !== null;
+    if (!this.currentPart || (!this.isFullTest && !showClock)) return '';
+
+    const partLabel = `Part ${this.currentPart.slice(-1)}`;
+    return html`
+      <div class="full-test-status">
+        <span>${this.isFullTest ? 'Full Test · ' : ''}${partLabel}</span>
+        ${showClock
+          ? html`<span
+              class="session-clock ${this.partClockPhase !== 'running'
+                ? 'wrapping-up'
+                : ''}"
+              >${this.formatClock(this.partElapsedSeconds)} /
+              ${this.formatClock(PART_TARGET_SECONDS)}</span
+            >`
+          : ''}
+      </div>
+    `;
+  }
+
   private renderIeltsContent() {
-    const transcriptList = html`${this.transcripts.map(
+    // Once the assessment for the session on screen arrives, show it inline.
+    const pronunciation = this.isRecording
+      ? undefined
+      : this.sessionPronunciation[this.currentSessionId ?? ''];
+    const grammar = this.isRecording
+      ? undefined
+      : this.sessionGrammar[this.currentSessionId ?? ''];
+    const earlierParts = this.fullTestTranscripts.map(
       (t) => html`
         <div class="transcript-line ${t.speaker.toLowerCase()}">
           <strong>${t.speaker}</strong>
           <div>${t.text}</div>
         </div>
       `,
+    );
+    const transcriptList = html`${earlierParts}${this.transcripts.map(
+      (t, index) => html`
+        <div class="transcript-line ${t.speaker.toLowerCase()}">
+          <strong>${t.speaker}</strong>
+          <div>
+            ${this.renderTranscriptText(
+              t.text,
+              issuesForTurn(pronunciation, index),
+              errorsForTurn(grammar, index),
+            )}
+          </div>
+        </div>
+      `,
     )}`;
 
     if (
       this.currentPart === 'part2' &&
-      (this.part2State === 'preparing' || this.part2State === 'speaking')
+      (this.part2State === 'preparing' ||
+        this.part2State === 'speaking' ||
+        this.part2State === 'rounding-off')
     ) {
       return html`
+        ${this.renderSessionStatus()}
         <div class="cue-card-sticky-wrapper">
           ${this.renderPart2CueCard()}
         </div>
@@ -2168,7 +5139,101 @@ export class GdmLiveAudio extends LitElement {
       `;
     }
 
-    return html`<div class="transcript-scroll-area">${transcriptList}</div>`;
+    return html`${this.renderSessionStatus()}
+      <div class="transcript-scroll-area">
+        ${transcriptList} ${this.renderModelAnswers()}
+      </div>`;
+  }
+
+  private renderModelAnswers() {
+    if (
+      this.isRecording ||
+      this.isFullTest ||
+      (this.currentPart !== 'part2' && this.currentPart !== 'part3') ||
+      !this.transcripts.some(({speaker}) => speaker === 'Candidate')
+    ) {
+      return '';
+    }
+
+    const error = this.modelAnswerError
+      ? html`<p class="model-answer-error">${this.modelAnswerError}</p>`
+      : '';
+    if (!this.modelAnswers) {
+      return html`
+        <div class="model-answers">
+          <button
+            class="model-answer-button"
+            ?disabled=${this.isModelAnswerLoading}
+            @click=${this.generateModelAnswers}>
+            ${this.isModelAnswerLoading
+              ? 'Writing a Band 8 answer...'
+              : 'Show a Band 8 model answer'}
+          </button>
+          ${error}
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="model-answers">
+        <div class="model-answer-legend">
+          ${MODEL_ANSWER_ASPECTS.map(
+            ({key, label}) =>
+              html`<mark class="model-answer-highlight ${key}">${label}</mark>`,
+          )}
+        </div>
+        ${error}
+        ${this.modelAnswers.map(
+          (answer, index) => html`
+            <div class="model-answer">
+              <h4>${answer.question}</h4>
+              <div class="model-answer-columns">
+                <div>
+                  <h5>Your answer</h5>
+                  <p>${answer.candidateAnswer}</p>
+                </div>
+                <div>
+                  <h5>
+                    Band 8 answer
+                    <button
+                      class="model-answer-button"
+                      @click=${() => this.playModelAnswer(index)}>
+                      ${this.playingModelAnswer === index ? 'Stop' : 'Listen'}
+                    </button>
+                  </h5>
+                  <p>
+                    ${splitSpans(answer.modelAnswer, answer.highlights).map(
+                      ({text, mark}) =>
+                        mark
+                          ? html`<mark
+                              class="model-answer-highlight ${mark.aspect}"
+                              title="${modelAnswerAspectLabel(
+                                mark.aspect,
+                              )}: ${mark.note}"
+                              >${text}</mark
+                            >`
+                          : text,
+                    )}
+                  </p>
+                </div>
+              </div>
+              <ul class="model-answer-notes">
+                ${answer.highlights.map(
+                  ({span, aspect, note}) => html`
+                    <li>
+                      <mark class="model-answer-highlight ${aspect}"
+                        >${span}</mark
+                      >
+                      ${note}
+                    </li>
+                  `,
+                )}
+              </ul>
+            </div>
+          `,
+        )}
+      </div>
+    `;
   }
 
   private renderApp() {
@@ -2177,6 +5242,7 @@ export class GdmLiveAudio extends LitElement {
         ${this.isOutOfCreditsModalOpen ? this.renderOutOfCreditsModal() : ''}
         ${this.isIntroModalOpen ? this.renderIntroModal() : ''}
         ${this.isStopConfirmModalOpen ? this.renderStopConfirmModal() : ''}
+        ${this.isPersonaModalOpen ? this.renderPersonaModal() : ''}
 
         <div class="profile-menu-container">
           <button
@@ -2203,6 +5269,34 @@ export class GdmLiveAudio extends LitElement {
             <button class="dropdown-item" @click=${this.openHistoryPanel}>
               History
             </button>
+            ${supabaseFeatures
+              ? html`
+                  <button class="dropdown-item" @click=${this.openDashboard}>
+                    Progress
+                  </button>
+                  <button class="dropdown-item" @click=${this.openStudyPlan}>
+                    Study Plan
+                  </button>
+                  <button class="dropdown-item" @click=${this.openVocabulary}>
+                    Vocabulary
+                  </button>
+                `
+              : ''}
+            <button
+              class="dropdown-item"
+              @click=${() => {
+                this.isPersonaModalOpen = true;
+                this.isProfileMenuOpen = false;
+              }}>
+              Examiner Settings
+            </button>
+            ${this.isAdmin
+              ? html`<button
+                  class="dropdown-item"
+                  @click=${this.openAdminConsole}>
+                  Admin Console
+                </button>`
+              : ''}
             <button
               class="dropdown-item"
               @click=${() =>
@@ -2215,6 +5309,7 @@ export class GdmLiveAudio extends LitElement {
         </div>
 
         ${this.renderHistoryPanel()}
+        ${this.renderConnectionBanner()}
 
         <div class="visualizer-container">
           <gdm-audio-visualizer
@@ -2225,8 +5320,12 @@ export class GdmLiveAudio extends LitElement {
         </div>
         <div class="part-selector">
           <button
-            class="part-button ${this.currentPart === 'part1' ? 'active' : ''}"
-            ?disabled=${this.isRecording && this.currentPart !== 'part1'}
+            class="part-button ${!this.isFullTest &&
+            this.currentPart === 'part1'
+              ? 'active'
+              : ''}"
+            ?disabled=${this.isFullTest ||
+            (this.isRecording && this.currentPart !== 'part1')}
             @click=${() =>
               this.isRecording && this.currentPart === 'part1'
                 ? this.requestStopSession()
@@ -2234,20 +5333,37 @@ export class GdmLiveAudio extends LitElement {
             Part 1
           </button>
           <button
-            class="part-button ${this.currentPart === 'part2' ? 'active' : ''}"
-            ?disabled=${this.isRecording && this.currentPart !== 'part2'}
+            class="part-button ${!this.isFullTest &&
+            this.currentPart === 'part2'
+              ? 'active'
+              : ''}"
+            ?disabled=${this.isFullTest ||
+            (this.isRecording && this.currentPart !== 'part2')}
             @click=${() => this.handlePartSelect('part2')}>
             Part 2
           </button>
           <button
-            class="part-button ${this.currentPart === 'part3' ? 'active' : ''}"
-            ?disabled=${this.isRecording && this.currentPart !== 'part3'}
+            class="part-button ${!this.isFullTest &&
+            this.currentPart === 'part3'
+              ? 'active'
+              : ''}"
+            ?disabled=${this.isFullTest ||
+            (this.isRecording && this.currentPart !== 'part3')}
             @click=${() =>
               this.isRecording && this.currentPart === 'part3'
                 ? this.requestStopSession()
                 : this.handlePartSelect('part3')}>
             Part 3
           </button>
+          <button
+            class="part-button ${this.isFullTest ? 'active' : ''}"
+            ?disabled=${this.isRecording && !this.isFullTest}
+            @click=${() =>
+              this.isFullTest
+                ? this.requestStopSession()
+                : this.handleFullTestSelect()}>
+            Full Test
+          </button>
         </div>
         <div class="transcripts-container">${this.renderIeltsContent()}</div>
       </div>
@@ -2334,9 +5450,9 @@ export class GdmLiveAudio extends LitElement {
       <p>
         We use the information we collect to operate, maintain, and provide you
         with the features and functionality of the service. Your audio is
-        processed in real-time by the Google Gemini API and is not stored
-        long-term on our servers. Transcripts of your sessions are saved to
-        provide you with a history and generate feedback.
+        processed in real-time by the Google Gemini API. Recordings and
+        transcripts of your sessions are saved to provide you with a history
+        you can play back and to generate feedback.
       </p>
       <h3>3. Data Storage and Security</h3>
       <p>
@@ -2410,10 +5526,22 @@ export class GdmLiveAudio extends LitElement {
 
   render() {
     let content;
-    if (!this.supabaseSession) {
+    if (this.shareToken) {
+      content = this.renderSharedReport();
+    } else if (!this.supabaseSession) {
       content = this.renderLogin();
+    } else if (this.currentView === 'session' && this.detailSessionId) {
+      content = this.renderSessionDetailPage();
     } else if (this.currentView === 'pricing') {
       content = this.renderPricingPage();
+    } else if (this.currentView === 'dashboard') {
+      content = this.renderDashboardPage();
+    } else if (this.currentView === 'study-plan') {
+      content = this.renderStudyPlanPage();
+    } else if (this.currentView === 'vocabulary') {
+      content = this.renderVocabularyPage();
+    } else if (this.currentView === 'admin' && this.isAdmin) {
+      content = this.renderAdminPage();
     } else {
       content = this.renderApp();
     }
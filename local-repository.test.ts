@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {LocalRepository} from './local-repository';
+import type {NewSession} from './repository';
+import {HISTORY_PAGE_SIZE, NO_HISTORY_FILTERS} from './sessions';
+import type {TranscriptTurn} from './transcript-store';
+
+// sessions.ts imports the Supabase client, which the local data never uses.
+vi.mock('./supabase-client', () => ({supabase: {}}));
+
+const USER_ID = 'user-1';
+
+function session(id: string, fields: Partial<NewSession> = {}): NewSession {
+  return {id, part: 'part1', cueCardId: null, topic: null, ...fields};
+}
+
+function turn(
+  sessionId: string,
+  turnIndex: number,
+  text: string,
+): TranscriptTurn {
+  return {
+    user_id: USER_ID,
+    session_id: sessionId,
+    turn_index: turnIndex,
+    speaker: 'user',
+    text,
+    audio_offset_ms: null,
+    audio_end_ms: null,
+    deltas: [],
+  };
+}
+
+// Node has no IndexedDB, so the repository keeps its tables in memory.
+describe('LocalRepository', () => {
+  let repository: LocalRepository;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers({toFake: ['Date']});
+    vi.setSystemTime(new Date('2026-03-01T09:00'));
+    repository = new LocalRepository();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** Starts each session a day after the one before. */
+  async function startSessions(sessions: NewSession[]) {
+    for (const s of sessions) {
+      await repository.startSession(USER_ID, s);
+      vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+    }
+  }
+
+  it('replaces a transcript turn saved again under the same index', async () => {
+    await repository.saveTranscriptTurns([
+      turn('s1', 1, 'first draft'),
+      turn('s1', 0, 'question'),
+    ]);
+    await repository.saveTranscriptTurns([turn('s1', 1, 'final answer')]);
+
+    const transcript = await repository.fetchSessionTranscripts('s1');
+    expect(transcript.map((t) => [t.turn_index, t.text])).toEqual([
+      [0, 'question'],
+      [1, 'final answer'],
+    ]);
+  });
+
+  it('pages sessions newest first', async () => {
+    await startSessions(
+      Array.from({length: HISTORY_PAGE_SIZE + 1}, (_, i) => session(`s${i}`)),
+    );
+
+    const first = await repository.fetchSessionPage(
+      USER_ID,
+      NO_HISTORY_FILTERS,
+      0,
+    );
+    expect(first.sessions).toHaveLength(HISTORY_PAGE_SIZE);
+    expect(first.sessions[0].id).toBe(`s${HISTORY_PAGE_SIZE}`);
+    expect(first.hasMore).toBe(true);
+
+    const second = await repository.fetchSessionPage(
+      USER_ID,
+      NO_HISTORY_FILTERS,
+      1,
+    );
+    expect(second.sessions.map((s) => s.id)).toEqual(['s0']);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('filters sessions by transcript, part, date, band and topic', async () => {
+    await startSessions([
+      session('a', {part: 'part2', topic: 'A quiet place'}),
+      session('b', {part: 'part3', topic: 'A quiet place'}),
+      session('c'),
+    ]);
+    await repository.setSessionBand('a', 6.5);
+    await repository.setSessionBand('b', 7);
+    await repository.saveTranscriptTurns([
+      turn('a', 1, 'I often go to the Library'),
+      turn('c', 1, 'My library card expired'),
+    ]);
+
+    async function ids(filters: Partial<typeof NO_HISTORY_FILTERS>) {
+      const {sessions} = await repository.fetchSessionPage(
+        USER_ID,
+        {...NO_HISTORY_FILTERS, ...filters},
+        0,
+      );
+      return sessions.map((s) => s.id);
+    }
+
+    expect(await ids({query: 'library'})).toEqual(['c', 'a']);
+    expect(await ids({query: 'library go'})).toEqual(['a']);
+    expect(await ids({part: 'part3'})).toEqual(['b']);
+    expect(await ids({from: '2026-03-02', to: '2026-03-02'})).toEqual(['b']);
+    expect(await ids({minBand: 7})).toEqual(['b']);
+    expect(await ids({topic: 'QUIET'})).toEqual(['b', 'a']);
+  });
+
+  it('lists sessions without feedback until they are assessed', async () => {
+    await startSessions([session('a'), session('b'), session('c')]);
+    await repository.startSession('someone-else', session('d'));
+
+    expect(
+      (await repository.fetchSessionsMissingFeedback(USER_ID, 2)).map(
+        (s) => s.id,
+      ),
+    ).toEqual(['c', 'b']);
+
+    const feedback = {
+      sessionId: 'c',
+      userId: USER_ID,
+      feedback: 'Good range of vocabulary.',
+      report: null,
+      signals: null,
+    };
+    await repository.saveFeedback(feedback);
+    await repository.saveFeedback({...feedback, feedback: 'Reassessed.'});
+
+    expect(
+      (await repository.fetchSessionsMissingFeedback(USER_ID, 5)).map(
+        (s) => s.id,
+      ),
+    ).toEqual(['b', 'a']);
+    expect(await repository.fetchFeedback(['c'])).toEqual({
+      c: {feedback: 'Reassessed.', report: null},
+    });
+  });
+});
@@ -0,0 +1,457 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {CueCard, CueCardSelection} from './cue-cards';
+import {DEFAULT_PERSONA, ExaminerPersona} from './examiner-persona';
+import {openDatabase, runTransaction} from './indexed-db';
+import type {
+  AuthSession,
+  FeedbackRecord,
+  NewFeedback,
+  NewSession,
+  Repository,
+  UserProfile,
+} from './repository';
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryFilters,
+  HistoryMessage,
+  SessionSummary,
+} from './sessions';
+import type {TranscriptTurn} from './transcript-store';
+
+// Kept apart from the transcript queue so clearing one leaves the other.
+const DB_NAME = 'ielts-examiner-local';
+const DB_VERSION = 1;
+const TABLES_STORE = 'tables';
+
+const LOCAL_USER_ID = '00000000-0000-4000-8000-000000000001';
+// A month of practice, the same as a new account.
+const LOCAL_CREDITS = 60 * 60;
+
+interface LocalTables {
+  sessions: Array<SessionSummary & {userId: string}>;
+  transcripts: Array<TranscriptTurn & {created_at: string}>;
+  feedback: NewFeedback[];
+  profiles: Array<UserProfile & {userId: string}>;
+  cueCards: CueCard[];
+  cueCardAttempts: Array<{
+    userId: string;
+    cueCardId: string;
+    sessionId: string;
+    createdAt: number;
+  }>;
+}
+
+const SEED_CUE_CARDS: CueCard[] = [
+  {
+    id: 'local-teacher',
+    title: 'Describe a teacher who has influenced you',
+    bullets: [
+      'who this teacher was',
+      'what subject they taught',
+      'what they were like',
+      'and explain why they influenced you',
+    ],
+    category: 'person',
+    difficulty: 'easy',
+    seasons: [],
+  },
+  {
+    id: 'local-quiet-place',
+    title: 'Describe a quiet place you like to visit',
+    bullets: [
+      'where it is',
+      'how often you go there',
+      'what you do there',
+      'and explain why you like it',
+    ],
+    category: 'place',
+    difficulty: 'easy',
+    seasons: [],
+  },
+  {
+    id: 'local-gift',
+    title: 'Describe a gift you gave that took a long time to choose',
+    bullets: [
+      'what the gift was',
+      'who you gave it to',
+      'why it took a long time to choose',
+      'and explain how the person felt about it',
+    ],
+    category: 'object',
+    difficulty: 'medium',
+    seasons: [],
+  },
+  {
+    id: 'local-celebration',
+    title: 'Describe a celebration you enjoyed',
+    bullets: [
+      'what was celebrated',
+      'where it took place',
+      'who was there',
+      'and explain why you enjoyed it',
+    ],
+    category: 'event',
+    difficulty: 'medium',
+    seasons: [],
+  },
+  {
+    id: 'local-change-of-plan',
+    title: 'Describe a time you had to change your plans at the last minute',
+    bullets: [
+      'what you had planned',
+      'why you had to change it',
+      'what you did instead',
+      'and explain how you felt about the change',
+    ],
+    category: 'experience',
+    difficulty: 'hard',
+    seasons: [],
+  },
+];
+
+function emptyTables(): LocalTables {
+  return {
+    sessions: [],
+    transcripts: [],
+    feedback: [],
+    profiles: [],
+    cueCards: SEED_CUE_CARDS,
+    cueCardAttempts: [],
+  };
+}
+
+/** Every search term appears in the text, ignoring case. */
+function matchesQuery(text: string, query: string) {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((term) => haystack.includes(term));
+}
+
+/**
+ * Keeps the app's data in the browser, for offline development and tests.
+ * Tables live in memory and are written through to IndexedDB, one record per
+ * table, so they survive reloads; without IndexedDB they last until the page
+ * closes. A single local user is signed in from the start.
+ */
+export class LocalRepository implements Repository {
+  private session: AuthSession | null = {user: {id: LOCAL_USER_ID}};
+  private listeners: Array<(session: AuthSession | null) => void> = [];
+  private db: Promise<IDBDatabase | null>;
+  private tables: Promise<LocalTables>;
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(TABLES_STORE);
+    }).catch((e) => {
+      console.error(
+        'IndexedDB is unavailable, local data will not persist:',
+        e,
+      );
+      return null;
+    });
+    this.tables = this.load();
+  }
+
+  async getAuthSession() {
+    return this.session;
+  }
+
+  onAuthChange(callback: (session: AuthSession | null) => void) {
+    this.listeners.push(callback);
+  }
+
+  async signIn() {
+    this.setSession({user: {id: LOCAL_USER_ID}});
+  }
+
+  async signOut() {
+    this.setSession(null);
+  }
+
+  async startSession(userId: string, session: NewSession) {
+    const tables = await this.tables;
+    tables.sessions.push({
+      ...session,
+      userId,
+      startedAt: new Date().toISOString(),
+      durationSeconds: null,
+      overallBand: null,
+    });
+    await this.save('sessions');
+  }
+
+  async finishSession(id: string, durationSeconds: number) {
+    const tables = await this.tables;
+    const session = tables.sessions.find((s) => s.id === id);
+    if (!session) return;
+    session.durationSeconds = durationSeconds;
+    await this.save('sessions');
+  }
+
+  async setSessionBand(id: string, overallBand: number) {
+    const tables = await this.tables;
+    const session = tables.sessions.find((s) => s.id === id);
+    if (!session) return;
+    session.overallBand = overallBand;
+    await this.save('sessions');
+  }
+
+  async fetchSessionPage(
+    userId: string,
+    filters: HistoryFilters,
+    page: number,
+  ): Promise<{sessions: SessionSummary[]; hasMore: boolean}> {
+    const tables = await this.tables;
+    const query = filters.query.trim();
+    const matchingIds = query
+      ? new Set(
+          tables.transcripts
+            .filter((turn) => matchesQuery(turn.text, query))
+            .map((turn) => turn.session_id),
+        )
+      : null;
+    const from = filters.from ? new Date(`${filters.from}T00:00`) : null;
+    const to = filters.to ? new Date(`${filters.to}T00:00`) : null;
+    to?.setDate(to.getDate() + 1);
+    const topic = filters.topic.trim().toLowerCase();
+
+    const sessions = tables.sessions
+      .filter(
+        (session) =>
+          session.userId === userId &&
+          (!matchingIds || matchingIds.has(session.id)) &&
+          (!filters.part || session.part === filters.part) &&
+          (!from || new Date(session.startedAt) >= from) &&
+          (!to || new Date(session.startedAt) < to) &&
+          (filters.minBand === null ||
+            (session.overallBand ?? -1) >= filters.minBand) &&
+          (!topic || !!session.topic?.toLowerCase().includes(topic)),
+      )
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    const start = page * HISTORY_PAGE_SIZE;
+    return {
+      sessions: sessions.slice(start, start + HISTORY_PAGE_SIZE).map(toSummary),
+      hasMore: sessions.length > start + HISTORY_PAGE_SIZE,
+    };
+  }
+
+  async fetchSessionSummary(id: string): Promise<SessionSummary | null> {
+    const tables = await this.tables;
+    const session = tables.sessions.find((s) => s.id === id);
+    return session ? toSummary(session) : null;
+  }
+
+  async fetchSessionsMissingFeedback(
+    userId: string,
+    limit: number,
+  ): Promise<SessionSummary[]> {
+    const tables = await this.tables;
+    const assessed = new Set(tables.feedback.map((f) => f.sessionId));
+    return tables.sessions
+      .filter((s) => s.userId === userId && !assessed.has(s.id))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, limit)
+      .map(toSummary);
+  }
+
+  async saveTranscriptTurns(turns: TranscriptTurn[]) {
+    const tables = await this.tables;
+    for (const turn of turns) {
+      const index = tables.transcripts.findIndex(
+        (t) =>
+          t.session_id === turn.session_id && t.turn_index === turn.turn_index,
+      );
+      if (index === -1) {
+        tables.transcripts.push({
+          ...turn,
+          created_at: new Date().toISOString(),
+        });
+      } else {
+        tables.transcripts[index] = {
+          ...turn,
+          created_at: tables.transcripts[index].created_at,
+        };
+      }
+    }
+    await this.save('transcripts');
+  }
+
+  async fetchSessionTranscripts(sessionId: string): Promise<HistoryMessage[]> {
+    const tables = await this.tables;
+    return tables.transcripts
+      .filter((turn) => turn.session_id === sessionId)
+      .sort((a, b) => a.turn_index - b.turn_index)
+      .map(
+        ({
+          speaker,
+          text,
+          created_at,
+          turn_index,
+          audio_offset_ms,
+          audio_end_ms,
+        }) => ({
+          speaker,
+          text,
+          created_at,
+          turn_index,
+          audio_offset_ms,
+          audio_end_ms,
+        }),
+      );
+  }
+
+  async saveFeedback(feedback: NewFeedback) {
+    const tables = await this.tables;
+    const index = tables.feedback.findIndex(
+      (f) => f.sessionId === feedback.sessionId,
+    );
+    if (index === -1) {
+      tables.feedback.push(feedback);
+    } else {
+      tables.feedback[index] = feedback;
+    }
+    await this.save('feedback');
+  }
+
+  async fetchFeedback(
+    sessionIds: string[],
+  ): Promise<Record<string, FeedbackRecord>> {
+    const tables = await this.tables;
+    return Object.fromEntries(
+      tables.feedback
+        .filter(({sessionId}) => sessionIds.includes(sessionId))
+        .map(({sessionId, feedback, report}) => [
+          sessionId,
+          {feedback, report},
+        ]),
+    );
+  }
+
+  async fetchProfile(userId: string): Promise<UserProfile | null> {
+    const {userId: _, ...profile} = await this.profile(userId);
+    return profile;
+  }
+
+  async saveExaminerPersona(userId: string, persona: ExaminerPersona) {
+    const profile = await this.profile(userId);
+    profile.examinerPersona = persona;
+    await this.save('profiles');
+  }
+
+  async deductCredits(userId: string, seconds: number): Promise<number> {
+    const profile = await this.profile(userId);
+    profile.credits = Math.max(0, profile.credits - seconds);
+    await this.save('profiles');
+    return profile.credits;
+  }
+
+  async fetchCueCards(
+    selection: Omit<CueCardSelection, 'cardId'>,
+  ): Promise<CueCard[]> {
+    const tables = await this.tables;
+    return tables.cueCards
+      .filter(
+        (card) =>
+          (!selection.category || card.category === selection.category) &&
+          (!selection.difficulty || card.difficulty === selection.difficulty),
+      )
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  async fetchCueCard(id: string): Promise<CueCard | null> {
+    const tables = await this.tables;
+    return tables.cueCards.find((card) => card.id === id) ?? null;
+  }
+
+  async fetchCueCardAttempts(userId: string): Promise<Map<string, number>> {
+    const tables = await this.tables;
+    const lastAttempt = new Map<string, number>();
+    for (const attempt of tables.cueCardAttempts) {
+      if (
+        attempt.userId === userId &&
+        attempt.createdAt > (lastAttempt.get(attempt.cueCardId) ?? 0)
+      ) {
+        lastAttempt.set(attempt.cueCardId, attempt.createdAt);
+      }
+    }
+    return lastAttempt;
+  }
+
+  async recordCueCardAttempt(
+    userId: string,
+    cueCardId: string,
+    sessionId: string,
+  ) {
+    const tables = await this.tables;
+    tables.cueCardAttempts.push({
+      userId,
+      cueCardId,
+      sessionId,
+      createdAt: Date.now(),
+    });
+    await this.save('cueCardAttempts');
+  }
+
+  private setSession(session: AuthSession | null) {
+    this.session = session;
+    for (const listener of this.listeners) listener(session);
+  }
+
+  /** The user's profile, created with a month of credits on first use. */
+  private async profile(userId: string) {
+    const tables = await this.tables;
+    let profile = tables.profiles.find((p) => p.userId === userId);
+    if (!profile) {
+      profile = {
+        userId,
+        credits: LOCAL_CREDITS,
+        isAdmin: false,
+        examinerPersona: DEFAULT_PERSONA,
+      };
+      tables.profiles.push(profile);
+      await this.save('profiles');
+    }
+    return profile;
+  }
+
+  private async load(): Promise<LocalTables> {
+    const tables = emptyTables();
+    const db = await this.db;
+    if (!db) return tables;
+
+    try {
+      await Promise.all(
+        (Object.keys(tables) as Array<keyof LocalTables>).map(async (name) => {
+          const stored = await runTransaction(
+            db,
+            TABLES_STORE,
+            'readonly',
+            (store) => store.get(name),
+          );
+          if (stored) tables[name] = stored;
+        }),
+      );
+    } catch (e) {
+      console.error('Error loading local data:', e);
+    }
+    return tables;
+  }
+
+  private async save(name: keyof LocalTables) {
+    const [db, tables] = await Promise.all([this.db, this.tables]);
+    if (!db) return;
+    await runTransaction(db, TABLES_STORE, 'readwrite', (store) =>
+      store.put(tables[name], name),
+    );
+  }
+}
+
+function toSummary({userId, ...summary}: SessionSummary & {userId: string}) {
+  return summary;
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Part, Schema, Type} from '@google/genai';
+
+const INPUT_SAMPLE_RATE = 16000;
+const MIN_SPEECH_RMS = 0.01;
+// Per-block rate at which the noise floor rises towards louder input. Slow
+// enough that a long stretch of speech is not mistaken for background noise.
+const NOISE_FLOOR_RISE = 0.0005;
+
+// The candidate is expected to speak for at least this long in Part 2.
+export const LONG_TURN_MIN_SECONDS = 60;
+
+/** How the candidate's Part 2 long turn went, saved with the session. */
+export interface LongTurn {
+  speakingSeconds: number;
+  endedEarly: boolean;
+  prompts: number;
+}
+
+/**
+ * Follows the candidate's microphone level during the long turn, one worklet
+ * block at a time, to tell when they have stopped talking.
+ */
+export class SilenceDetector {
+  private noiseFloor = MIN_SPEECH_RMS;
+  private elapsedMs = 0;
+  private firstVoicedMs: number | null = null;
+  private lastVoicedMs: number | null = null;
+
+  reset() {
+    this.noiseFloor = MIN_SPEECH_RMS;
+    this.elapsedMs = 0;
+    this.firstVoicedMs = null;
+    this.lastVoicedMs = null;
+  }
+
+  push(samples: Float32Array) {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    // Drop straight to quieter levels, rise slowly towards louder ones.
+    this.noiseFloor =
+      rms < this.noiseFloor
+        ? rms
+        : this.noiseFloor + (rms - this.noiseFloor) * NOISE_FLOOR_RISE;
+
+    const blockStartMs = this.elapsedMs;
+    this.elapsedMs += (samples.length / INPUT_SAMPLE_RATE) * 1000;
+    if (rms > Math.max(MIN_SPEECH_RMS, this.noiseFloor * 2.5)) {
+      this.firstVoicedMs ??= blockStartMs;
+      this.lastVoicedMs = this.elapsedMs;
+    }
+  }
+
+  get hasSpoken() {
+    return this.firstVoicedMs !== null;
+  }
+
+  /** Time since the candidate last made a sound. */
+  get silenceMs() {
+    return this.elapsedMs - (this.lastVoicedMs ?? 0);
+  }
+
+  /** Time from the candidate's first sound to their last. */
+  get speakingMs() {
+    return this.firstVoicedMs === null
+      ? 0
+      : this.lastVoicedMs! - this.firstVoicedMs;
+  }
+}
+
+/** Facts about the long turn for the examiner writing the band report. */
+export function longTurnObservations(longTurn: LongTurn | undefined) {
+  if (!longTurn) return [];
+
+  const observations = [
+    `In the Part 2 long turn the candidate spoke for ${longTurn.speakingSeconds} seconds out of the 1-2 minutes available.`,
+  ];
+  if (longTurn.endedEarly) {
+    observations.push('The candidate chose to finish the long turn early.');
+  }
+  if (longTurn.prompts > 0) {
+    observations.push(
+      `The candidate dried up and had to be prompted to continue ${longTurn.prompts} time(s).`,
+    );
+  }
+  return observations;
+}
+
+/** The candidate's Part 2 preparation notes. */
+export interface Part2Notes {
+  text: string;
+  sketch: Blob | null;
+}
+
+/** How the candidate's notes compare with what they went on to say. */
+export interface NotesComparison {
+  usedNotes: string[];
+  unusedNotes: string[];
+  unplannedPoints: string[];
+  advice: string;
+}
+
+const STRING_LIST: Schema = {type: Type.ARRAY, items: {type: Type.STRING}};
+
+export const NOTES_COMPARISON_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    usedNotes: STRING_LIST,
+    unusedNotes: STRING_LIST,
+    unplannedPoints: STRING_LIST,
+    advice: {type: Type.STRING},
+  },
+  required: ['usedNotes', 'unusedNotes', 'unplannedPoints', 'advice'],
+  propertyOrdering: ['usedNotes', 'unusedNotes', 'unplannedPoints', 'advice'],
+};
+
+export function buildNotesComparisonRequest(
+  cueCard: {description: string; points: string[]},
+  notes: string,
+  sketchPng: string | null,
+  spoken: string,
+): Part[] {
+  const parts: Part[] = [
+    {
+      text: `You are an IELTS speaking coach reviewing how a candidate used their one minute of preparation for Part 2.
+Cue card: ${cueCard.description}
+${cueCard.points.map((point) => `- ${point}`).join('\n')}
+Compare the candidate's notes with what they actually said. List the noted ideas they used, the noted ideas they never used, and the main points they made that were not in their notes.
+Finish with two or three sentences of advice on planning technique, such as using keywords rather than sentences or covering every bullet point.
+Typed notes: ${notes ? `"${notes}"` : '(none)'}`,
+    },
+  ];
+  if (sketchPng) {
+    parts.push(
+      {text: 'Handwritten notes:'},
+      {inlineData: {mimeType: 'image/png', data: sketchPng}},
+    );
+  }
+  parts.push({text: `What the candidate said:\n${spoken}`});
+  return parts;
+}
+
+function parseStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    throw new Error(`Notes comparison is missing ${field}.`);
+  }
+  return value;
+}
+
+/** Validates the model output against `NOTES_COMPARISON_SCHEMA`. */
+export function parseNotesComparison(text: string): NotesComparison {
+  const raw = JSON.parse(text);
+  if (typeof raw?.advice !== 'string') {
+    throw new Error('Notes comparison is missing advice.');
+  }
+  return {
+    usedNotes: parseStringList(raw.usedNotes, 'usedNotes'),
+    unusedNotes: parseStringList(raw.unusedNotes, 'unusedNotes'),
+    unplannedPoints: parseStringList(raw.unplannedPoints, 'unplannedPoints'),
+    advice: raw.advice,
+  };
+}
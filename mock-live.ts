@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerContent,
+  LiveServerMessage,
+} from '@google/genai';
+import type {LiveConnection, LiveTransport} from './exam-session';
+import {decode, encode} from './utils';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const INPUT_SAMPLE_RATE = 16000;
+// Examiner audio is streamed in real time, one chunk per tick.
+const CHUNK_MS = 100;
+const SECONDS_PER_WORD = 0.35;
+// How much microphone audio makes up one scripted candidate answer.
+const ANSWER_SECONDS = 4;
+const REPLY_DELAY_MS = 600;
+// Sustained input this loud while the examiner speaks counts as barging in.
+const BARGE_IN_RMS = 0.05;
+const BARGE_IN_MS = 400;
+
+type MockPart = 'part1' | 'part2' | 'part3';
+
+// Examiner lines for each part, repeated if the part runs long. The Part 2
+// examiner stays silent until the test system tells it to speak.
+const EXAMINER_SCRIPT: Record<MockPart, string[]> = {
+  part1: [
+    "Good morning. Let's talk about where you live. Do you live in a house or an apartment?",
+    'What do you like most about your neighbourhood?',
+    "Let's move on to free time. What do you usually do at the weekend?",
+    'Do you prefer spending your free time indoors or outdoors?',
+    "Now let's talk about food. What kind of food do you enjoy cooking?",
+  ],
+  part2: [],
+  part3: [
+    'Why do you think people enjoy this kind of experience?',
+    "Has this changed compared with your parents' generation?",
+    'How might technology change this in the future?',
+    'Should governments do more to encourage it?',
+  ],
+};
+
+const CANDIDATE_SCRIPT = [
+  'Well, I live in a small apartment in the city centre with my family, and I really like it because everything is close by.',
+  'I think the main thing is the people, because my neighbours are very friendly and we often help each other out.',
+  'Usually I go to the park with my friends, or if the weather is bad we just stay at home and watch films together.',
+  "To be honest it depends on the season, but in general I'd say I prefer being outdoors because it helps me relax.",
+  'I enjoy cooking simple dishes like pasta, although I have recently started trying some recipes from my grandmother.',
+];
+
+function partFromInstruction(config?: LiveConnectConfig): MockPart {
+  const instruction =
+    typeof config?.systemInstruction === 'string'
+      ? config.systemInstruction
+      : '';
+  const part = /\bPart ([123])\b/.exec(instruction)?.[1] ?? '1';
+  return `part${part}` as MockPart;
+}
+
+/**
+ * A deterministic stand-in for the examiner's voice: a low tone with a
+ * syllable-rate envelope, as 16-bit little-endian PCM.
+ */
+function examinerPcm(durationMs: number): Uint8Array {
+  const length = Math.round((durationMs / 1000) * OUTPUT_SAMPLE_RATE);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * 4 * t);
+    const voice =
+      Math.sin(2 * Math.PI * 140 * t) + 0.4 * Math.sin(2 * Math.PI * 280 * t);
+    samples[i] = Math.round(voice * envelope * 0.15 * 32767);
+  }
+  return new Uint8Array(samples.buffer);
+}
+
+function inputRms(params: LiveSendRealtimeInputParameters) {
+  const data = params.media?.data;
+  if (!data) return {rms: 0, durationMs: 0};
+  const bytes = decode(data);
+  const samples = new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i] / 32768;
+    sum += sample * sample;
+  }
+  return {
+    rms: samples.length ? Math.sqrt(sum / samples.length) : 0,
+    durationMs: (samples.length / INPUT_SAMPLE_RATE) * 1000,
+  };
+}
+
+/**
+ * Plays a scripted examiner over the Live message shapes. Every examiner
+ * line streams canned PCM with its transcript word by word, and every few
+ * seconds of microphone audio becomes a scripted candidate answer.
+ */
+class MockLiveConnection implements LiveConnection {
+  private readonly script: string[];
+  private scriptIndex = 0;
+  private answerIndex = 0;
+  // Lines the test system asked for, said in place of the next scripted one.
+  private pendingLines: string[] = [];
+  private speaking: ReturnType<typeof setInterval> | null = null;
+  private reply: ReturnType<typeof setTimeout> | null = null;
+  private listenedMs = 0;
+  private loudMs = 0;
+  private closed = false;
+
+  constructor(
+    private readonly part: MockPart,
+    private readonly callbacks: LiveCallbacks,
+  ) {
+    this.script = EXAMINER_SCRIPT[part];
+    this.callbacks.onopen?.();
+    if (this.script.length > 0) {
+      this.scheduleReply();
+    }
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.closed) return;
+    const {rms, durationMs} = inputRms(params);
+
+    if (this.speaking) {
+      this.loudMs = rms > BARGE_IN_RMS ? this.loudMs + durationMs : 0;
+      if (this.loudMs >= BARGE_IN_MS) {
+        this.stopSpeaking();
+        this.send({interrupted: true});
+      }
+      return;
+    }
+
+    this.listenedMs += durationMs;
+    if (this.listenedMs >= ANSWER_SECONDS * 1000) {
+      this.listenedMs = 0;
+      this.answer();
+    }
+  }
+
+  sendClientContent({turns, turnComplete}: LiveSendClientContentParameters) {
+    if (this.closed) return;
+    const text = typeof turns === 'string' ? turns : '';
+    const quoted = [...text.matchAll(/say (?:exactly )?"([^"]+)"/gi)].map(
+      (match) => match[1],
+    );
+    if (quoted.length > 0) {
+      this.pendingLines = [quoted.join(' ')];
+    }
+    if (turnComplete) {
+      this.stopSpeaking();
+      this.scheduleReply();
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.stopSpeaking();
+    if (this.reply) clearTimeout(this.reply);
+    setTimeout(() =>
+      this.callbacks.onclose?.(
+        new CloseEvent('close', {code: 1000, wasClean: true}),
+      ),
+    );
+  }
+
+  private send(serverContent: LiveServerContent) {
+    if (this.closed) return;
+    this.callbacks.onmessage(
+      Object.assign(new LiveServerMessage(), {serverContent}),
+    );
+  }
+
+  private answer() {
+    const text = CANDIDATE_SCRIPT[this.answerIndex++ % CANDIDATE_SCRIPT.length];
+    this.send({inputTranscription: {text: `${text} `}});
+    // The Part 2 examiner keeps listening through the long turn.
+    if (this.part !== 'part2') {
+      this.scheduleReply();
+    }
+  }
+
+  private scheduleReply() {
+    if (this.reply) clearTimeout(this.reply);
+    this.reply = setTimeout(() => {
+      this.reply = null;
+      const line =
+        this.pendingLines.shift() ??
+        (this.script.length > 0
+          ? this.script[this.scriptIndex++ % this.script.length]
+          : null);
+      if (line) this.speak(line);
+    }, REPLY_DELAY_MS);
+  }
+
+  private speak(line: string) {
+    const words = line.split(/\s+/);
+    const durationMs = words.length * SECONDS_PER_WORD * 1000;
+    const pcm = examinerPcm(durationMs);
+    const bytesPerChunk = (OUTPUT_SAMPLE_RATE * CHUNK_MS * 2) / 1000;
+    let offset = 0;
+    let spokenWords = 0;
+
+    this.loudMs = 0;
+    this.speaking = setInterval(() => {
+      const chunk = pcm.slice(offset, offset + bytesPerChunk);
+      offset += bytesPerChunk;
+      this.send({
+        modelTurn: {
+          parts: [
+            {
+              inlineData: {
+                data: encode(chunk),
+                mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+              },
+            },
+          ],
+        },
+      });
+
+      // Transcribe the words whose audio has been sent so far.
+      const heard = Math.min(
+        words.length,
+        Math.ceil((offset / pcm.length) * words.length),
+      );
+      if (heard > spokenWords) {
+        const text = words.slice(spokenWords, heard).join(' ');
+        this.send({
+          outputTranscription: {text: spokenWords ? ` ${text}` : text},
+        });
+        spokenWords = heard;
+      }
+
+      if (offset >= pcm.length) {
+        this.stopSpeaking();
+        this.listenedMs = 0;
+        this.send({turnComplete: true});
+      }
+    }, CHUNK_MS);
+  }
+
+  private stopSpeaking() {
+    if (this.speaking) {
+      clearInterval(this.speaking);
+      this.speaking = null;
+    }
+  }
+}
+
+/**
+ * An offline Live API for development, demos and headless browser tests.
+ * The part is read from the system instruction, and the examiner follows
+ * the test system's `say exactly "..."` directions.
+ */
+export class MockLiveTransport implements LiveTransport {
+  async connect(params: {
+    model: string;
+    callbacks: LiveCallbacks;
+    config?: LiveConnectConfig;
+  }): Promise<LiveConnection> {
+    return new MockLiveConnection(
+      partFromInstruction(params.config),
+      params.callbacks,
+    );
+  }
+}
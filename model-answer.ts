@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Schema, Type} from '@google/genai';
+
+export type ModelAnswerAspect = 'structure' | 'linking' | 'vocabulary';
+
+export const MODEL_ANSWER_ASPECTS: Array<{
+  key: ModelAnswerAspect;
+  label: string;
+}> = [
+  {key: 'structure', label: 'Structure'},
+  {key: 'linking', label: 'Linking devices'},
+  {key: 'vocabulary', label: 'Vocabulary'},
+];
+
+/** An examiner question or cue card with the candidate's reply. */
+export interface AnswerPair {
+  question: string;
+  candidateAnswer: string;
+}
+
+export interface ModelAnswerHighlight {
+  /** Copied verbatim from the model answer. */
+  span: string;
+  aspect: ModelAnswerAspect;
+  /** How this differs from what the candidate said. */
+  note: string;
+}
+
+export interface ModelAnswer extends AnswerPair {
+  modelAnswer: string;
+  highlights: ModelAnswerHighlight[];
+}
+
+/**
+ * The questions the candidate answered in a Part 2 or Part 3 session. Part 2
+ * is a single long turn on the cue card; in Part 3 every examiner line opens
+ * a question that runs until the examiner speaks again.
+ */
+export function answerPairs(
+  part: 'part2' | 'part3',
+  transcripts: Array<{speaker: string; text: string}>,
+  cueCard: {description: string; points: string[]} | null,
+): AnswerPair[] {
+  if (part === 'part2') {
+    const candidateAnswer = transcripts
+      .filter(({speaker}) => speaker === 'Candidate')
+      .map(({text}) => text.trim())
+      .join(' ')
+      .trim();
+    return cueCard && candidateAnswer
+      ? [
+          {
+            question: `${cueCard.description} You should say: ${cueCard.points.join('; ')}`,
+            candidateAnswer,
+          },
+        ]
+      : [];
+  }
+
+  const pairs: AnswerPair[] = [];
+  for (const {speaker, text} of transcripts) {
+    if (speaker === 'Examiner') {
+      pairs.push({question: text.trim(), candidateAnswer: ''});
+    } else if (speaker === 'Candidate' && pairs.length > 0) {
+      const pair = pairs[pairs.length - 1];
+      pair.candidateAnswer = `${pair.candidateAnswer} ${text.trim()}`.trim();
+    }
+  }
+  return pairs.filter(({candidateAnswer}) => candidateAnswer);
+}
+
+export function modelAnswerSchema(count: number): Schema {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      answers: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            modelAnswer: {type: Type.STRING},
+            highlights: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  span: {type: Type.STRING},
+                  aspect: {
+                    type: Type.STRING,
+                    enum: MODEL_ANSWER_ASPECTS.map(({key}) => key),
+                  },
+                  note: {type: Type.STRING},
+                },
+                required: ['span', 'aspect', 'note'],
+                propertyOrdering: ['span', 'aspect', 'note'],
+              },
+            },
+          },
+          required: ['modelAnswer', 'highlights'],
+          propertyOrdering: ['modelAnswer', 'highlights'],
+        },
+        minItems: String(count),
+        maxItems: String(count),
+      },
+    },
+    required: ['answers'],
+  };
+}
+
+export function buildModelAnswerPrompt(
+  part: 'part2' | 'part3',
+  pairs: AnswerPair[],
+): string {
+  const length =
+    part === 'part2'
+      ? 'a long turn of about 250 words that covers every point on the cue card'
+      : 'an answer of four to six sentences that gives an opinion, a reason and an example';
+  return `You are an IELTS speaking examiner writing Band 8 model answers for IELTS Speaking ${part === 'part2' ? 'Part 2' : 'Part 3'}.
+For each numbered question below, write ${length}, in the natural spoken English of a Band 8 candidate. Build on the candidate's own ideas where they are relevant, so the difference lies in how the answer is expressed.
+Then pick three to six short spans copied exactly from your model answer that show what the candidate's answer lacked, each tagged as structure (how the answer is organised), linking (linking devices and discourse markers) or vocabulary (less common words and collocations), with a one sentence note comparing it with what the candidate said.
+Return one answer per question, in the same order.
+${pairs
+  .map(
+    ({question, candidateAnswer}, i) =>
+      `${i + 1}. Question: ${question}\nCandidate's answer: ${candidateAnswer}`,
+  )
+  .join('\n\n')}`;
+}
+
+/**
+ * Validates the model output against `modelAnswerSchema` and pairs each
+ * answer with its question. Highlights that cannot be found in the model
+ * answer are dropped.
+ */
+export function parseModelAnswers(
+  text: string,
+  pairs: AnswerPair[],
+): ModelAnswer[] {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw?.answers) || raw.answers.length !== pairs.length) {
+    throw new Error('Expected one model answer per question.');
+  }
+
+  return pairs.map((pair, i) => {
+    const answer = raw.answers[i];
+    if (
+      typeof answer?.modelAnswer !== 'string' ||
+      !Array.isArray(answer.highlights)
+    ) {
+      throw new Error(`Invalid model answer for question ${i + 1}.`);
+    }
+    const highlights = answer.highlights.filter(
+      (h: Partial<ModelAnswerHighlight>) =>
+        typeof h?.span === 'string' &&
+        typeof h.note === 'string' &&
+        MODEL_ANSWER_ASPECTS.some(({key}) => key === h.aspect) &&
+        h.span.trim() &&
+        answer.modelAnswer.includes(h.span),
+    );
+    return {...pair, modelAnswer: answer.modelAnswer, highlights};
+  });
+}
+
+export function modelAnswerAspectLabel(aspect: ModelAnswerAspect) {
+  return MODEL_ANSWER_ASPECTS.find(({key}) => key === aspect)!.label;
+}
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+/**
+ * Part 2 preparation notes: a text area and a freehand sketch canvas. Both
+ * become read-only once the candidate starts speaking.
+ */
+@customElement('gdm-note-pad')
+export class GdmNotePad extends LitElement {
+  @property({type: Boolean, reflect: true}) readonly = false;
+  @state() private mode: 'type' | 'draw' = 'type';
+  @state() private text = '';
+
+  private canvas!: HTMLCanvasElement;
+  private strokes = 0;
+  private lastPoint: {x: number; y: number} | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      margin-top: 12px;
+    }
+    .tabs {
+      display: flex;
+      gap: 6px;
+      margin-bottom: 6px;
+    }
+    .tabs button {
+      background: none;
+      border: 1px solid #555;
+      border-radius: 6px;
+      color: #bbb;
+      padding: 4px 10px;
+      cursor: pointer;
+      font-size: 0.8rem;
+    }
+    .tabs button.active {
+      background-color: #4285f4;
+      border-color: #4285f4;
+      color: white;
+    }
+    .tabs .clear {
+      margin-left: auto;
+    }
+    textarea,
+    canvas {
+      width: 100%;
+      height: 140px;
+      box-sizing: border-box;
+      background-color: #fffef5;
+      border: 1px solid #555;
+      border-radius: 6px;
+    }
+    textarea {
+      color: #222;
+      padding: 8px;
+      font-family: inherit;
+      font-size: 0.9rem;
+      resize: none;
+    }
+    canvas {
+      touch-action: none;
+      cursor: crosshair;
+    }
+    :host([readonly]) canvas {
+      cursor: default;
+    }
+    [hidden] {
+      display: none;
+    }
+  `;
+
+  firstUpdated() {
+    this.canvas = this.shadowRoot!.querySelector('canvas')!;
+    this.canvas.width = 600;
+    this.canvas.height = 280;
+  }
+
+  /** The typed notes. */
+  get notes() {
+    return this.text.trim();
+  }
+
+  /** The sketch as a PNG, or null if nothing was drawn. */
+  toPng(): Promise<Blob | null> {
+    if (this.strokes === 0) return Promise.resolve(null);
+    return new Promise((resolve) => this.canvas.toBlob(resolve, 'image/png'));
+  }
+
+  private pointFor(e: PointerEvent) {
+    const rect = this.canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * this.canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * this.canvas.height,
+    };
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    if (this.readonly) return;
+    this.canvas.setPointerCapture(e.pointerId);
+    this.lastPoint = this.pointFor(e);
+    this.strokes++;
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    if (!this.lastPoint || this.readonly) return;
+    const ctx = this.canvas.getContext('2d')!;
+    const point = this.pointFor(e);
+    ctx.strokeStyle = '#222';
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(this.lastPoint.x, this.lastPoint.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    this.lastPoint = point;
+  }
+
+  private handlePointerUp() {
+    this.lastPoint = null;
+  }
+
+  private clear() {
+    if (this.mode === 'type') {
+      this.text = '';
+    } else {
+      this.canvas
+        .getContext('2d')!
+        .clearRect(0, 0, this.canvas.width, this.canvas.height);
+      this.strokes = 0;
+    }
+  }
+
+  render() {
+    return html`
+      <div class="tabs">
+        <button
+          class=${this.mode === 'type' ? 'active' : ''}
+          @click=${() => (this.mode = 'type')}>
+          Type
+        </button>
+        <button
+          class=${this.mode === 'draw' ? 'active' : ''}
+          @click=${() => (this.mode = 'draw')}>
+          Draw
+        </button>
+        ${this.readonly
+          ? ''
+          : html`<button class="clear" @click=${this.clear}>Clear</button>`}
+      </div>
+      <textarea
+        ?hidden=${this.mode !== 'type'}
+        ?readonly=${this.readonly}
+        placeholder="Jot down your ideas..."
+        .value=${this.text}
+        @input=${(e: Event) =>
+          (this.text = (e.target as HTMLTextAreaElement).value)}></textarea>
+      <canvas
+        ?hidden=${this.mode !== 'draw'}
+        @pointerdown=${this.handlePointerDown}
+        @pointermove=${this.handlePointerMove}
+        @pointerup=${this.handlePointerUp}
+        @pointercancel=${this.handlePointerUp}></canvas>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-note-pad': GdmNotePad;
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, css, html, svg} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {BAND_CRITERIA, BandCriterion} from './band-report';
+import {
+  ProgressGoal,
+  ProgressPoint,
+  bandFor,
+  fetchProgress,
+  fetchProgressGoal,
+  minutesPractised,
+  practiceStreaks,
+  projectBand,
+  saveProgressGoal,
+  weakestCriteria,
+} from './progress';
+import type {ExamPart} from './sessions';
+
+const SERIES: Array<{
+  key: BandCriterion | 'overall';
+  label: string;
+  color: string;
+}> = [
+  {key: 'overall', label: 'Overall', color: '#ffffff'},
+  ...BAND_CRITERIA.map(({key, label}, i) => ({
+    key,
+    label,
+    color: ['#8ab4f8', '#81c995', '#fdd663', '#f28b82'][i],
+  })),
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_MIN_BAND = 3;
+
+/**
+ * Band scores over time, practice habits and a projection towards the
+ * candidate's target band.
+ */
+@customElement('gdm-progress-dashboard')
+export class GdmProgressDashboard extends LitElement {
+  @property() userId = '';
+  @state() private points: ProgressPoint[] = [];
+  @state() private goal: ProgressGoal = {targetBand: null, examDate: null};
+  @state() private partFilter: ExamPart | 'all' = 'all';
+  @state() private isLoading = true;
+  @state() private message: {text: string; isError: boolean} | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      max-width: 900px;
+      margin: 0 auto;
+      padding: 20px;
+      text-align: left;
+    }
+    section {
+      background-color: #1e1e1e;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 16px;
+      margin-bottom: 20px;
+    }
+    h3 {
+      margin: 0 0 12px;
+      font-size: 1rem;
+      font-weight: 500;
+    }
+    .stats {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+      gap: 12px;
+    }
+    .stat {
+      background-color: #242424;
+      border-radius: 8px;
+      padding: 12px;
+    }
+    .stat strong {
+      display: block;
+      font-size: 1.6rem;
+      font-weight: 500;
+    }
+    .stat span {
+      font-size: 0.8rem;
+      color: #aaa;
+    }
+    .tabs {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+    button {
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #555;
+      border-radius: 6px;
+      padding: 6px 12px;
+      cursor: pointer;
+      font-size: 0.85rem;
+    }
+    button:hover {
+      background-color: #444;
+    }
+    button.active,
+    button.primary {
+      background-color: #4285f4;
+      border-color: #4285f4;
+      color: white;
+    }
+    svg {
+      width: 100%;
+      height: auto;
+    }
+    .grid-line {
+      stroke: #333;
+      stroke-width: 1;
+    }
+    .grid-label {
+      fill: #888;
+      font-size: 11px;
+    }
+    .target-line {
+      stroke: #fdd663;
+      stroke-dasharray: 6 4;
+      stroke-width: 1;
+    }
+    polyline {
+      fill: none;
+      stroke-width: 2;
+    }
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      font-size: 0.8rem;
+      color: #bbb;
+      margin-top: 8px;
+    }
+    .legend span::before {
+      content: '';
+      display: inline-block;
+      background-color: var(--color);
+      width: 10px;
+      height: 10px;
+      border-radius: 2px;
+      margin-right: 4px;
+    }
+    form {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: flex-end;
+      gap: 12px;
+    }
+    label {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 0.9rem;
+      color: #bbb;
+    }
+    input,
+    select {
+      background-color: #2a2a2a;
+      color: #e0e0e0;
+      border: 1px solid #444;
+      border-radius: 6px;
+      padding: 8px;
+      font-size: 0.95rem;
+    }
+    .projection {
+      margin: 12px 0 0;
+      color: #bbb;
+    }
+    ol {
+      margin: 0;
+      padding-left: 20px;
+    }
+    li {
+      margin-bottom: 4px;
+    }
+    .message.error {
+      color: #f28b82;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.load();
+  }
+
+  private async load() {
+    this.isLoading = true;
+    try {
+      [this.points, this.goal] = await Promise.all([
+        fetchProgress(this.userId),
+        fetchProgressGoal(this.userId),
+      ]);
+    } catch (e) {
+      console.error('Error loading progress:', e);
+      this.message = {
+        text: `Could not load your progress: ${(e as Error).message}`,
+        isError: true,
+      };
+    }
+    this.isLoading = false;
+  }
+
+  private async handleGoalSubmit(e: SubmitEvent) {
+    e.preventDefault();
+    const form = new FormData(e.target as HTMLFormElement);
+    const targetBand = form.get('targetBand') as string;
+    const goal: ProgressGoal = {
+      targetBand: targetBand ? Number(targetBand) : null,
+      examDate: (form.get('examDate') as string) || null,
+    };
+
+    try {
+      await saveProgressGoal(this.userId, goal);
+      this.goal = goal;
+      this.message = {text: 'Goal saved.', isError: false};
+    } catch (err) {
+      console.error('Error saving progress goal:', err);
+      this.message = {text: (err as Error).message, isError: true};
+    }
+  }
+
+  private renderChart(points: ProgressPoint[]) {
+    if (points.length === 0) {
+      return html`<p>No assessed sessions yet.</p>`;
+    }
+
+    const first = points[0].startedAt.getTime();
+    const span = points[points.length - 1].startedAt.getTime() - first;
+    const x = (p: ProgressPoint) =>
+      span === 0
+        ? CHART_WIDTH / 2
+        : ((p.startedAt.getTime() - first) / span) * (CHART_WIDTH - 40) + 30;
+    const y = (band: number) =>
+      CHART_HEIGHT -
+      10 -
+      ((Math.max(band, CHART_MIN_BAND) - CHART_MIN_BAND) /
+        (9 - CHART_MIN_BAND)) *
+        (CHART_HEIGHT - 20);
+
+    const bands = [3, 4, 5, 6, 7, 8, 9];
+    const target = this.goal.targetBand;
+    return html`
+      <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}">
+        ${bands.map(
+          (band) => svg`
+            <line class="grid-line" x1="30" x2=${CHART_WIDTH} y1=${y(band)} y2=${y(band)} />
+            <text class="grid-label" x="0" y=${y(band) + 4}>${band}</text>
+          `,
+        )}
+        ${target !== null
+          ? svg`<line class="target-line" x1="30" x2=${CHART_WIDTH} y1=${y(target)} y2=${y(target)} />`
+          : ''}
+        ${SERIES.map(
+          ({key, color}) => svg`
+            <polyline
+              stroke=${color}
+              stroke-width=${key === 'overall' ? 3 : 1.5}
+              points=${points
+                .map((p) => `${x(p)},${y(bandFor(p.report!, key))}`)
+                .join(' ')} />
+          `,
+        )}
+      </svg>
+      <div class="legend">
+        ${SERIES.map(
+          ({label, color}) =>
+            html`<span style="--color: ${color}">${label}</span>`,
+        )}
+        ${target !== null
+          ? html`<span style="--color: #fdd663">Target</span>`
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderProjection(projected: number | null) {
+    if (!this.goal.examDate) return '';
+    if (projected === null) {
+      return html`<p class="projection">
+        Complete at least three assessed sessions before your exam to see a
+        projection.
+      </p>`;
+    }
+
+    const {targetBand} = this.goal;
+    return html`<p class="projection">
+      At your current rate you are on course for band ${projected} on exam
+      day${targetBand !== null
+        ? projected >= targetBand
+          ? `, meeting your target of ${targetBand}`
+          : `, short of your target of ${targetBand}`
+        : ''}.
+    </p>`;
+  }
+
+  render() {
+    if (this.isLoading) {
+      return html`<p>Loading your progress...</p>`;
+    }
+
+    const streaks = practiceStreaks(this.points);
+    const assessed = this.points.filter(
+      (p) =>
+        p.report && (this.partFilter === 'all' || p.part === this.partFilter),
+    );
+    const weakest = weakestCriteria(this.points);
+    const projected = projectBand(this.points, this.goal.examDate);
+
+    return html`
+      ${this.message
+        ? html`<p class="message ${this.message.isError ? 'error' : ''}">
+            ${this.message.text}
+          </p>`
+        : ''}
+      <section class="stats">
+        <div class="stat">
+          <strong>${streaks.current}</strong>
+          <span>day streak (best ${streaks.longest})</span>
+        </div>
+        <div class="stat">
+          <strong>${minutesPractised(this.points)}</strong>
+          <span>minutes practised</span>
+        </div>
+        <div class="stat">
+          <strong>${this.points.length}</strong>
+          <span>sessions</span>
+        </div>
+        <div class="stat">
+          <strong>${projected ?? '–'}</strong>
+          <span>projected band on exam day</span>
+        </div>
+      </section>
+
+      <section>
+        <h3>Band scores</h3>
+        <div class="tabs">
+          ${(['all', 'part1', 'part2', 'part3'] as const).map(
+            (part) => html`
+              <button
+                class=${this.partFilter === part ? 'active' : ''}
+                @click=${() => (this.partFilter = part)}>
+                ${part === 'all' ? 'All parts' : `Part ${part.slice(-1)}`}
+              </button>
+            `,
+          )}
+        </div>
+        ${this.renderChart(assessed)}
+      </section>
+
+      <section>
+        <h3>Weakest criteria</h3>
+        ${weakest.length === 0
+          ? html`<p>Complete an assessed session to see your weak spots.</p>`
+          : html`<ol>
+              ${weakest.map(
+                ({label, average}) =>
+                  html`<li>${label}: ${average.toFixed(1)}</li>`,
+              )}
+            </ol>`}
+      </section>
+
+      <section>
+        <h3>Your goal</h3>
+        <form @submit=${this.handleGoalSubmit}>
+          <label>
+            Target band
+            <select name="targetBand">
+              <option value="">Not set</option>
+              ${[5, 5.5, 6, 6.5, 7, 7.5, 8, 8.5, 9].map(
+                (band) =>
+                  html`<option
+                    value=${band}
+                    ?selected=${band === this.goal.targetBand}>
+                    ${band}
+                  </option>`,
+              )}
+            </select>
+          </label>
+          <label>
+            Exam date
+            <input
+              type="date"
+              name="examDate"
+              .value=${this.goal.examDate ?? ''} />
+          </label>
+          <button type="submit" class="primary">Save</button>
+        </form>
+        ${this.renderProjection(projected)}
+      </section>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-progress-dashboard': GdmProgressDashboard;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {BAND_CRITERIA, BandCriterion, BandReport} from './band-report';
+import type {ExamPart} from './sessions';
+import {supabase} from './supabase-client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The projection is fitted to this many of the most recent assessed sessions.
+const PROJECTION_WINDOW = 10;
+const PROJECTION_MIN_SESSIONS = 3;
+// Weakest criteria are judged on recent sessions so old weaknesses fade out.
+const WEAKNESS_WINDOW = 10;
+
+/** One session as plotted on the dashboard. */
+export interface ProgressPoint {
+  sessionId: string;
+  part: ExamPart | null;
+  startedAt: Date;
+  durationSeconds: number;
+  report: BandReport | null;
+}
+
+/** The candidate's goal, stored on their profile. */
+export interface ProgressGoal {
+  targetBand: number | null;
+  /** `yyyy-mm-dd` */
+  examDate: string | null;
+}
+
+/** A `sessions` row with its feedback embedded, one-to-one or as a list. */
+interface ProgressRow {
+  id: string;
+  part: ExamPart | null;
+  started_at: string;
+  duration_seconds: number | null;
+  session_feedback:
+    {report: BandReport | null} | Array<{report: BandReport | null}> | null;
+}
+
+export async function fetchProgress(userId: string): Promise<ProgressPoint[]> {
+  const {data, error} = await supabase
+    .from('sessions')
+    .select('id, part, started_at, duration_seconds, session_feedback(report)')
+    .eq('user_id', userId)
+    .order('started_at', {ascending: true});
+  if (error) throw error;
+
+  return (data ?? []).map((row: ProgressRow) => {
+    const feedback = Array.isArray(row.session_feedback)
+      ? row.session_feedback[0]
+      : row.session_feedback;
+    return {
+      sessionId: row.id,
+      part: row.part,
+      startedAt: new Date(row.started_at),
+      durationSeconds: row.duration_seconds ?? 0,
+      report: feedback?.report ?? null,
+    };
+  });
+}
+
+export async function fetchProgressGoal(userId: string): Promise<ProgressGoal> {
+  const {data, error} = await supabase
+    .from('profiles')
+    .select('target_band, exam_date')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    targetBand: data?.target_band ?? null,
+    examDate: data?.exam_date ?? null,
+  };
+}
+
+export async function saveProgressGoal(userId: string, goal: ProgressGoal) {
+  const {error} = await supabase
+    .from('profiles')
+    .update({target_band: goal.targetBand, exam_date: goal.examDate})
+    .eq('id', userId);
+  if (error) throw error;
+}
+
+/** Bands are reported in half steps. */
+export function roundToHalfBand(band: number) {
+  return Math.min(9, Math.max(0, Math.round(band * 2) / 2));
+}
+
+function dayNumber(date: Date) {
+  return Math.floor(
+    Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS,
+  );
+}
+
+/**
+ * Consecutive days with at least one session. The current streak survives
+ * until the end of the day after the last session.
+ */
+export function practiceStreaks(points: ProgressPoint[], today = new Date()) {
+  const days = [...new Set(points.map((p) => dayNumber(p.startedAt)))].sort(
+    (a, b) => a - b,
+  );
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  const lastDay = days[days.length - 1];
+  const current = lastDay !== undefined && dayNumber(today) - lastDay <= 1;
+  return {current: current ? run : 0, longest};
+}
+
+export function minutesPractised(points: ProgressPoint[]) {
+  return Math.round(
+    points.reduce((total, p) => total + p.durationSeconds, 0) / 60,
+  );
+}
+
+/** Average band per criterion over recent sessions, weakest first. */
+export function weakestCriteria(points: ProgressPoint[]) {
+  const recent = points.filter((p) => p.report).slice(-WEAKNESS_WINDOW);
+  if (recent.length === 0) return [];
+
+  return BAND_CRITERIA.map(({key, label}) => ({
+    key,
+    label,
+    average:
+      recent.reduce((total, p) => total + p.report![key].band, 0) /
+      recent.length,
+  })).sort((a, b) => a.average - b.average);
+}
+
+/** A criterion's band, or the overall band, for a session. */
+export function bandFor(
+  report: BandReport,
+  criterion: BandCriterion | 'overall',
+) {
+  return criterion === 'overall' ? report.overallBand : report[criterion].band;
+}
+
+/**
+ * Extrapolates the overall band to the exam date with a least-squares line
+ * through the most recent assessed sessions. Returns null when there are too
+ * few sessions or the exam date has passed.
+ */
+export function projectBand(
+  points: ProgressPoint[],
+  examDate: string | null,
+  now = new Date(),
+): number | null {
+  if (!examDate) return null;
+  const examDay = new Date(`${examDate}T00:00`);
+  if (examDay.getTime() < now.getTime()) return null;
+
+  const recent = points.filter((p) => p.report).slice(-PROJECTION_WINDOW);
+  if (recent.length < PROJECTION_MIN_SESSIONS) return null;
+
+  const xs = recent.map((p) => p.startedAt.getTime() / DAY_MS);
+  const ys = recent.map((p) => p.report!.overallBand);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  // Sessions all on the same day give no trend; project the average.
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return roundToHalfBand(meanY + slope * (examDay.getTime() / DAY_MS - meanX));
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {describe, expect, it} from 'vitest';
+import {CandidateAudioCapture, speechRateWpm} from './pronunciation';
+
+const SAMPLE_RATE = 16000;
+
+function seconds(value: number, fill: number) {
+  return new Float32Array(value * SAMPLE_RATE).fill(fill);
+}
+
+describe('CandidateAudioCapture', () => {
+  it('cuts a clip from just before the first transcription to the last', () => {
+    const capture = new CandidateAudioCapture();
+    // The examiner's question, then the answer, then silence.
+    capture.push(seconds(5, 0.1));
+    capture.push(seconds(1, 0.5));
+    capture.transcribed(true);
+    capture.push(seconds(3, 0.5));
+    capture.transcribed(false);
+    capture.push(seconds(4, 0));
+    capture.endTurn(1);
+
+    const clip = capture.take().get(1)!;
+    expect(clip.length).toBe(4.5 * SAMPLE_RATE);
+    expect(clip[0]).toBeCloseTo(0.1);
+    expect(clip[0.5 * SAMPLE_RATE]).toBeCloseTo(0.5);
+    expect(clip[clip.length - 1]).toBeCloseTo(0.5);
+  });
+
+  it('starts each turn afresh', () => {
+    const capture = new CandidateAudioCapture();
+    capture.push(seconds(2, 0.5));
+    capture.transcribed(true);
+    capture.endTurn(1);
+    capture.push(seconds(10, 0.1));
+    capture.push(seconds(1, 0.5));
+    capture.transcribed(true);
+    capture.endTurn(3);
+
+    const clips = capture.take();
+    expect(clips.get(1)!.length).toBe(1.5 * SAMPLE_RATE);
+    expect(clips.get(3)!.length).toBe(1.5 * SAMPLE_RATE);
+  });
+});
+
+describe('speechRateWpm', () => {
+  it('divides the words by the length of the clips', () => {
+    expect(
+      speechRateWpm([
+        {turnIndex: 1, text: 'one two three', samples: seconds(1, 0)},
+        {turnIndex: 3, text: ' four  five six ', samples: seconds(2, 0)},
+      ]),
+    ).toBe(120);
+  });
+});
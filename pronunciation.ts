@@ -0,0 +1,237 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Part, Schema, Type} from '@google/genai';
+import {encode, encodeWav} from './utils';
+
+const INPUT_SAMPLE_RATE = 16000;
+
+export interface CandidateTurnAudio {
+  turnIndex: number;
+  text: string;
+  samples: Float32Array;
+}
+
+// Transcriptions trail the audio, so a turn's clip starts this long before
+// its first transcribed words.
+const TRANSCRIPTION_LAG_SECONDS = 1.5;
+
+/**
+ * Collects the 16 kHz microphone samples streamed by the worklet and cuts
+ * them into one clip per candidate turn. A clip runs from just before the
+ * candidate's first transcribed words to their last, so the examiner's
+ * question and the silence after the answer are left out.
+ */
+export class CandidateAudioCapture {
+  private pending: Float32Array[] = [];
+  private pendingLength = 0;
+  private spokenLength = 0;
+  private turns = new Map<number, Float32Array>();
+
+  push(samples: Float32Array) {
+    this.pending.push(samples);
+    this.pendingLength += samples.length;
+  }
+
+  /** Called for every candidate transcription, `turnStarted` for the first. */
+  transcribed(turnStarted: boolean) {
+    if (turnStarted) {
+      this.keepLast(TRANSCRIPTION_LAG_SECONDS * INPUT_SAMPLE_RATE);
+    }
+    this.spokenLength = this.pendingLength;
+  }
+
+  endTurn(turnIndex: number) {
+    const samples = new Float32Array(this.spokenLength);
+    let offset = 0;
+    for (const chunk of this.pending) {
+      if (offset >= samples.length) break;
+      const part = chunk.subarray(0, samples.length - offset);
+      samples.set(part, offset);
+      offset += part.length;
+    }
+    this.turns.set(turnIndex, samples);
+    this.pending = [];
+    this.pendingLength = 0;
+    this.spokenLength = 0;
+  }
+
+  /** Returns the captured clips and resets the capture for a new session. */
+  take(): Map<number, Float32Array> {
+    const turns = this.turns;
+    this.turns = new Map();
+    this.pending = [];
+    this.pendingLength = 0;
+    this.spokenLength = 0;
+    return turns;
+  }
+
+  private keepLast(length: number) {
+    const kept: Float32Array[] = [];
+    let keptLength = 0;
+    for (let i = this.pending.length - 1; i >= 0 && keptLength < length; i--) {
+      const chunk = this.pending[i];
+      const part = chunk.subarray(
+        Math.max(0, chunk.length - (length - keptLength)),
+      );
+      kept.unshift(part);
+      keptLength += part.length;
+    }
+    this.pending = kept;
+    this.pendingLength = keptLength;
+  }
+}
+
+export interface PronunciationIssue {
+  turnIndex: number;
+  word: string;
+  tip: string;
+}
+
+export interface PronunciationAssessment {
+  mispronounced: PronunciationIssue[];
+  wordStress: PronunciationIssue[];
+  intonation: {range: 'flat' | 'narrow' | 'natural' | 'wide'; comment: string};
+  speechRateWpm: number;
+  summary: string;
+}
+
+const ISSUE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    turnIndex: {type: Type.INTEGER},
+    word: {type: Type.STRING},
+    tip: {type: Type.STRING},
+  },
+  required: ['turnIndex', 'word', 'tip'],
+};
+
+export const PRONUNCIATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    mispronounced: {type: Type.ARRAY, items: ISSUE_SCHEMA},
+    wordStress: {type: Type.ARRAY, items: ISSUE_SCHEMA},
+    intonation: {
+      type: Type.OBJECT,
+      properties: {
+        range: {
+          type: Type.STRING,
+          enum: ['flat', 'narrow', 'natural', 'wide'],
+        },
+        comment: {type: Type.STRING},
+      },
+      required: ['range', 'comment'],
+    },
+    summary: {type: Type.STRING},
+  },
+  required: ['mispronounced', 'wordStress', 'intonation', 'summary'],
+  propertyOrdering: ['mispronounced', 'wordStress', 'intonation', 'summary'],
+};
+
+/**
+ * Speech rate over the candidate's turns. Clips include the pauses within
+ * each answer and up to a second and a half of lead-in, so this is a little
+ * below the articulation rate.
+ */
+export function speechRateWpm(turns: CandidateTurnAudio[]): number {
+  const words = turns.reduce(
+    (sum, {text}) => sum + text.split(/\s+/).filter(Boolean).length,
+    0,
+  );
+  const seconds = turns.reduce(
+    (sum, {samples}) => sum + samples.length / INPUT_SAMPLE_RATE,
+    0,
+  );
+  return seconds > 0 ? Math.round((words / seconds) * 60) : 0;
+}
+
+export function buildPronunciationRequest(turns: CandidateTurnAudio[]): Part[] {
+  const parts: Part[] = [
+    {
+      text: `You are an IELTS speaking examiner assessing pronunciation. Below are recordings of a candidate's answers, each followed by its automatic transcript.
+List words the candidate mispronounced and words with misplaced word stress, using the turn index shown and the word as it appears in the transcript, each with a short tip.
+Describe the candidate's intonation range and finish with a two sentence summary. Only report problems you can clearly hear.`,
+    },
+  ];
+  for (const {turnIndex, text, samples} of turns) {
+    parts.push(
+      {text: `Turn ${turnIndex} transcript: "${text}"`},
+      {
+        inlineData: {
+          mimeType: 'audio/wav',
+          data: encode(encodeWav(samples, INPUT_SAMPLE_RATE)),
+        },
+      },
+    );
+  }
+  return parts;
+}
+
+function parseIssues(value: unknown, field: string): PronunciationIssue[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Pronunciation assessment is missing ${field}.`);
+  }
+  return value.map((issue) => {
+    if (
+      !Number.isInteger(issue?.turnIndex) ||
+      typeof issue.word !== 'string' ||
+      typeof issue.tip !== 'string'
+    ) {
+      throw new Error(`Invalid entry in ${field}.`);
+    }
+    return {turnIndex: issue.turnIndex, word: issue.word, tip: issue.tip};
+  });
+}
+
+/**
+ * Validates the model output against `PRONUNCIATION_SCHEMA` and adds the
+ * locally measured speech rate.
+ */
+export function parsePronunciationAssessment(
+  text: string,
+  speechRate: number,
+): PronunciationAssessment {
+  const raw = JSON.parse(text);
+  const range = raw?.intonation?.range;
+  if (!['flat', 'narrow', 'natural', 'wide'].includes(range)) {
+    throw new Error('Invalid intonation range.');
+  }
+  if (
+    typeof raw.intonation.comment !== 'string' ||
+    typeof raw.summary !== 'string'
+  ) {
+    throw new Error('Pronunciation assessment is incomplete.');
+  }
+
+  return {
+    mispronounced: parseIssues(raw.mispronounced, 'mispronounced'),
+    wordStress: parseIssues(raw.wordStress, 'wordStress'),
+    intonation: {range, comment: raw.intonation.comment},
+    speechRateWpm: speechRate,
+    summary: raw.summary,
+  };
+}
+
+/** Issues for one transcript line, keyed by lower-cased word. */
+export function issuesForTurn(
+  assessment: PronunciationAssessment | undefined,
+  turnIndex: number,
+): Map<string, string> {
+  const issues = new Map<string, string>();
+  if (!assessment) return issues;
+  for (const issue of assessment.mispronounced) {
+    if (issue.turnIndex === turnIndex) {
+      issues.set(issue.word.toLowerCase(), issue.tip);
+    }
+  }
+  for (const issue of assessment.wordStress) {
+    if (
+      issue.turnIndex === turnIndex &&
+      !issues.has(issue.word.toLowerCase())
+    ) {
+      issues.set(issue.word.toLowerCase(), `Stress: ${issue.tip}`);
+    }
+  }
+  return issues;
+}
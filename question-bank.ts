@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {
+  CUE_CARD_CATEGORIES,
+  CUE_CARD_DIFFICULTIES,
+  toCueCard,
+} from './cue-cards';
+import {supabase} from './supabase-client';
+
+/**
+ * The curated question banks the examiner draws from. Retired items stay in
+ * the tables so past sessions and attempts still resolve, but are never
+ * offered to candidates.
+ */
+export type BankKind = 'cueCards' | 'part1Topics' | 'part3Pools';
+
+export interface BankField {
+  key: string;
+  label: string;
+  required?: boolean;
+  /** Stored as a text array; one entry per line in the editor. */
+  list?: boolean;
+  options?: readonly string[];
+}
+
+export interface BankDefinition {
+  label: string;
+  table: string;
+  titleKey: string;
+  fields: BankField[];
+}
+
+export const QUESTION_BANKS: Record<BankKind, BankDefinition> = {
+  cueCards: {
+    label: 'Part 2 cue cards',
+    table: 'ielts_part2_cues',
+    titleKey: 'title',
+    fields: [
+      {key: 'title', label: 'Title', required: true},
+      {key: 'bullets', label: 'Bullet points', required: true, list: true},
+      {key: 'category', label: 'Category', options: CUE_CARD_CATEGORIES},
+      {key: 'difficulty', label: 'Difficulty', options: CUE_CARD_DIFFICULTIES},
+      {key: 'season_tags', label: 'Seasons (e.g. 2026 Sep-Dec)', list: true},
+    ],
+  },
+  part1Topics: {
+    label: 'Part 1 topic sets',
+    table: 'ielts_part1_topics',
+    titleKey: 'topic',
+    fields: [
+      {key: 'topic', label: 'Topic', required: true},
+      {key: 'questions', label: 'Questions', required: true, list: true},
+    ],
+  },
+  part3Pools: {
+    label: 'Part 3 question pools',
+    table: 'ielts_part3_pools',
+    titleKey: 'theme',
+    fields: [
+      {key: 'theme', label: 'Theme', required: true},
+      {key: 'questions', label: 'Questions', required: true, list: true},
+      {
+        key: 'category',
+        label: 'Cue card category',
+        options: CUE_CARD_CATEGORIES,
+      },
+      {key: 'cue_card_id', label: 'Linked cue card ID'},
+    ],
+  },
+};
+
+export type BankItem = Record<string, unknown> & {
+  id?: string;
+  retired?: boolean;
+};
+
+export interface Part1TopicSet {
+  id: string;
+  topic: string;
+  questions: string[];
+}
+
+export async function fetchBank(kind: BankKind): Promise<BankItem[]> {
+  const {table, titleKey} = QUESTION_BANKS[kind];
+  const {data, error} = await supabase.from(table).select('*').order(titleKey);
+  if (error) throw error;
+  // Older cue cards keep their bullets in the fixed bullet_a..d columns.
+  return kind === 'cueCards'
+    ? (data ?? []).map((row) => ({...row, bullets: toCueCard(row).bullets}))
+    : (data ?? []);
+}
+
+/**
+ * Inserts new items and overwrites existing ones with the same id. Items that
+ * do not say whether they are retired keep their current state, so they are
+ * upserted apart from the ones that do.
+ */
+export async function saveBankItems(kind: BankKind, items: BankItem[]) {
+  const rows = items.map(({retired, ...item}) => ({
+    ...item,
+    id: item.id ?? crypto.randomUUID(),
+    ...(retired === undefined ? {} : {retired}),
+  }));
+  const batches = [
+    rows.filter((row) => 'retired' in row),
+    rows.filter((row) => !('retired' in row)),
+  ];
+  for (const batch of batches) {
+    if (batch.length === 0) continue;
+    const {error} = await supabase
+      .from(QUESTION_BANKS[kind].table)
+      .upsert(batch);
+    if (error) throw error;
+  }
+}
+
+export async function setBankItemRetired(
+  kind: BankKind,
+  id: string,
+  retired: boolean,
+) {
+  const {error} = await supabase
+    .from(QUESTION_BANKS[kind].table)
+    .update({retired})
+    .eq('id', id);
+  if (error) throw error;
+}
+
+/** Splits CSV text into rows, honouring double-quoted fields. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Checks one item against the bank's fields and normalises it: list fields
+ * become trimmed arrays, blank optional fields become null.
+ */
+export function validateBankItem(kind: BankKind, raw: BankItem): BankItem {
+  const item: BankItem = raw.id ? {id: raw.id} : {};
+  for (const field of QUESTION_BANKS[kind].fields) {
+    const value = raw[field.key];
+    if (field.list) {
+      const entries = (
+        Array.isArray(value) ? value : String(value ?? '').split('|')
+      )
+        .map((entry: unknown) => String(entry).trim())
+        .filter(Boolean);
+      if (field.required && entries.length === 0) {
+        throw new Error(`"${field.label}" needs at least one entry.`);
+      }
+      item[field.key] = entries;
+    } else {
+      const text = value == null ? '' : String(value).trim();
+      if (!text) {
+        if (field.required) throw new Error(`"${field.label}" is required.`);
+        item[field.key] = null;
+      } else if (field.options && !field.options.includes(text)) {
+        throw new Error(
+          `"${text}" is not a valid ${field.label.toLowerCase()}. Use one of: ${field.options.join(', ')}.`,
+        );
+      } else {
+        item[field.key] = text;
+      }
+    }
+  }
+  // Only an explicit value changes whether an existing item is retired.
+  const retired: unknown = raw.retired;
+  if (typeof retired === 'boolean') {
+    item.retired = retired;
+  } else if (typeof retired === 'string' && retired.trim()) {
+    item.retired = retired.trim().toLowerCase() === 'true';
+  }
+  return item;
+}
+
+/**
+ * Parses a bulk import. JSON must be an array of objects keyed by field name.
+ * CSV needs a header row of field names; list fields separate their entries
+ * with "|". An optional `retired` field of true or false retires or restores
+ * an item; without it, existing items keep their current state.
+ */
+export function parseBankImport(kind: BankKind, text: string): BankItem[] {
+  const trimmed = text.trim();
+  let raw: BankItem[];
+  if (trimmed.startsWith('[')) {
+    raw = JSON.parse(trimmed);
+    if (!Array.isArray(raw)) throw new Error('Expected a JSON array.');
+  } else {
+    const [header, ...rows] = parseCsv(trimmed);
+    const keys = header.map((key) => key.trim());
+    raw = rows.map((row) =>
+      Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])),
+    );
+  }
+
+  return raw.map((item, i) => {
+    try {
+      return validateBankItem(kind, item);
+    } catch (e) {
+      throw new Error(`Item ${i + 1}: ${(e as Error).message}`);
+    }
+  });
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Random active Part 1 topic sets; empty if the bank has none. */
+export async function pickPart1Topics(count = 3): Promise<Part1TopicSet[]> {
+  const {data, error} = await supabase
+    .from('ielts_part1_topics')
+    .select('id, topic, questions')
+    .eq('retired', false);
+  if (error) throw error;
+  return shuffle(data ?? []).slice(0, count);
+}
+
+/**
+ * Part 3 questions for a cue card: the pool linked to the card if there is
+ * one, otherwise the pools for the card's category.
+ */
+export async function findPart3Questions(
+  cueCardId: string | null,
+  category: string | null,
+): Promise<string[]> {
+  const {data, error} = await supabase
+    .from('ielts_part3_pools')
+    .select('cue_card_id, category, questions')
+    .eq('retired', false);
+  if (error) throw error;
+
+  const pools = data ?? [];
+  const linked = pools.filter((p) => cueCardId && p.cue_card_id === cueCardId);
+  const matching = linked.length
+    ? linked
+    : pools.filter(
+        (p) => category && !p.cue_card_id && p.category === category,
+      );
+  return shuffle(matching.flatMap((pool) => pool.questions as string[]));
+}
+
+/** The distinct themes of the active Part 3 pools. */
+export async function fetchPart3Themes(): Promise<string[]> {
+  const {data, error} = await supabase
+    .from('ielts_part3_pools')
+    .select('theme')
+    .eq('retired', false);
+  if (error) throw error;
+  return [...new Set((data ?? []).map((pool) => pool.theme as string))].sort();
+}
+
+/** Part 3 questions from every active pool with the given theme. */
+export async function findPart3QuestionsByTheme(
+  theme: string,
+): Promise<string[]> {
+  const {data, error} = await supabase
+    .from('ielts_part3_pools')
+    .select('questions')
+    .eq('retired', false)
+    .eq('theme', theme);
+  if (error) throw error;
+  return shuffle((data ?? []).flatMap((pool) => pool.questions as string[]));
+}
+
+export function buildPart1Instruction(topics: Part1TopicSet[]): string {
+  const topicList = topics
+    .map(
+      ({topic, questions}, i) =>
+        `Topic ${i + 1}: ${topic}\n${questions.map((q) => `- ${q}`).join('\n')}`,
+    )
+    .join('\n\n');
+  return `You are an IELTS examiner conducting Part 1 of the speaking test.
+Ask the candidate questions from the following topics, in order, moving to the next topic after three or four questions.
+Use the questions as written; do not invent new topics.
+
+${topicList}
+
+Keep your questions concise. The user is the candidate.
+Start the conversation by asking your first question now.`;
+}
+
+export function buildPart3Instruction(
+  topic: string,
+  questions: string[],
+): string {
+  return `You are an IELTS examiner conducting Part 3 of the speaking test.
+The topic is a follow-up to Part 2, which was about '${topic}'.
+Ask abstract and opinion-based questions drawn from this list, choosing the ones that follow on best from the candidate's answers:
+${questions.map((q) => `- ${q}`).join('\n')}
+Do not invent questions on unrelated topics.
+Keep your questions concise and ask only one question at a time.
+Do not provide your own opinions, explanations, or long statements.
+The goal is to simulate a real two-way discussion for 4-5 minutes.
+Start the conversation now by asking your first question.`;
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {BandReport} from './band-report';
+import type {CueCard, CueCardSelection} from './cue-cards';
+import type {ExaminerPersona} from './examiner-persona';
+import {LocalRepository} from './local-repository';
+import type {HistoryFilters, HistoryMessage, SessionSummary} from './sessions';
+import type {SessionSignals} from './study-plan';
+import {SupabaseRepository} from './supabase-repository';
+import {supabase} from './supabase-client';
+import type {TranscriptTurn} from './transcript-store';
+
+/** The signed-in user. A Supabase auth session satisfies it. */
+export interface AuthSession {
+  user: {id: string};
+}
+
+export interface UserProfile {
+  /** Seconds of practice left this month. */
+  credits: number;
+  isAdmin: boolean;
+  examinerPersona: ExaminerPersona;
+}
+
+export interface FeedbackRecord {
+  feedback: string;
+  /** Missing for sessions assessed before structured band reports. */
+  report: BandReport | null;
+}
+
+export interface NewFeedback {
+  sessionId: string;
+  userId: string;
+  feedback: string;
+  /** Null for sessions without candidate speech, which are not assessed. */
+  report: BandReport | null;
+  signals: SessionSignals | null;
+}
+
+export type NewSession = Omit<
+  SessionSummary,
+  'startedAt' | 'durationSeconds' | 'overallBand'
+>;
+
+/**
+ * Reads and writes the app's core data: sessions, transcripts, feedback, the
+ * user's profile and credits, and cue cards. Methods throw when the backing
+ * store reports an error.
+ */
+export interface Repository {
+  getAuthSession(): Promise<AuthSession | null>;
+  onAuthChange(callback: (session: AuthSession | null) => void): void;
+  signIn(): Promise<void>;
+  signOut(): Promise<void>;
+
+  startSession(userId: string, session: NewSession): Promise<void>;
+  finishSession(id: string, durationSeconds: number): Promise<void>;
+  setSessionBand(id: string, overallBand: number): Promise<void>;
+  /**
+   * One page of the user's sessions, newest first. Transcripts are not
+   * included; load them with `fetchSessionTranscripts`.
+   */
+  fetchSessionPage(
+    userId: string,
+    filters: HistoryFilters,
+    page: number,
+  ): Promise<{sessions: SessionSummary[]; hasMore: boolean}>;
+  fetchSessionSummary(id: string): Promise<SessionSummary | null>;
+  /** The user's most recent sessions that have no examiner feedback yet. */
+  fetchSessionsMissingFeedback(
+    userId: string,
+    limit: number,
+  ): Promise<SessionSummary[]>;
+
+  /** Saves turns keyed by session and turn index, replacing earlier copies. */
+  saveTranscriptTurns(turns: TranscriptTurn[]): Promise<void>;
+  fetchSessionTranscripts(sessionId: string): Promise<HistoryMessage[]>;
+
+  saveFeedback(feedback: NewFeedback): Promise<void>;
+  fetchFeedback(sessionIds: string[]): Promise<Record<string, FeedbackRecord>>;
+
+  fetchProfile(userId: string): Promise<UserProfile | null>;
+  saveExaminerPersona(userId: string, persona: ExaminerPersona): Promise<void>;
+  /** Charges practice time and returns the seconds left. */
+  deductCredits(userId: string, seconds: number): Promise<number>;
+
+  fetchCueCards(
+    selection: Omit<CueCardSelection, 'cardId'>,
+  ): Promise<CueCard[]>;
+  fetchCueCard(id: string): Promise<CueCard | null>;
+  /** When the user last attempted each cue card, in epoch milliseconds. */
+  fetchCueCardAttempts(userId: string): Promise<Map<string, number>>;
+  recordCueCardAttempt(
+    userId: string,
+    cueCardId: string,
+    sessionId: string,
+  ): Promise<void>;
+}
+
+// LOCAL_DATA=true keeps the core data in the browser for offline development.
+export const repository: Repository = process.env.LOCAL_DATA
+  ? new LocalRepository()
+  : new SupabaseRepository(supabase);
+
+/**
+ * Whether the features that still query Supabase directly are available:
+ * recordings, saved assessments other than feedback, full test records, share
+ * links, progress, the study plan, the vocabulary notebook and the question
+ * bank. They are switched off with LOCAL_DATA.
+ */
+export const supabaseFeatures = !process.env.LOCAL_DATA;
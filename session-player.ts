@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+
+const WAVEFORM_BARS = 120;
+
+/**
+ * Plays back a recorded session with a clickable waveform.
+ */
+@customElement('gdm-session-player')
+export class GdmSessionPlayer extends LitElement {
+  @property({type: String}) src = '';
+  @state() private isPlaying = false;
+  @state() private currentTime = 0;
+  @state() private duration = 0;
+
+  private audio = new Audio();
+  private peaks: number[] = [];
+  private canvas!: HTMLCanvasElement;
+
+  static styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      margin-bottom: 12px;
+    }
+    button {
+      background-color: #4285f4;
+      border: none;
+      border-radius: 50%;
+      width: 32px;
+      height: 32px;
+      color: white;
+      cursor: pointer;
+      flex-shrink: 0;
+    }
+    canvas {
+      flex: 1;
+      height: 40px;
+      min-width: 0;
+      cursor: pointer;
+    }
+    span {
+      font-size: 0.75rem;
+      color: #aaa;
+      font-variant-numeric: tabular-nums;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.audio.addEventListener('timeupdate', this.handleTimeUpdate);
+    this.audio.addEventListener('play', this.handlePlayState);
+    this.audio.addEventListener('pause', this.handlePlayState);
+    this.audio.addEventListener('loadedmetadata', this.handleTimeUpdate);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.audio.pause();
+    this.audio.removeEventListener('timeupdate', this.handleTimeUpdate);
+    this.audio.removeEventListener('play', this.handlePlayState);
+    this.audio.removeEventListener('pause', this.handlePlayState);
+    this.audio.removeEventListener('loadedmetadata', this.handleTimeUpdate);
+  }
+
+  firstUpdated() {
+    this.canvas = this.shadowRoot!.querySelector('canvas')!;
+    this.canvas.width = 600;
+    this.canvas.height = 80;
+  }
+
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('src') && this.src) {
+      this.audio.src = this.src;
+      this.loadWaveform();
+    }
+  }
+
+  updated() {
+    this.drawWaveform();
+  }
+
+  /** Jumps to `seconds` into the recording and starts playing. */
+  seek(seconds: number) {
+    this.audio.currentTime = seconds;
+    this.audio.play();
+  }
+
+  private handleTimeUpdate = () => {
+    this.currentTime = this.audio.currentTime;
+    this.dispatchEvent(
+      new CustomEvent('time-update', {
+        detail: {currentTime: this.currentTime},
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    // MediaRecorder output often reports an infinite duration until loaded.
+    if (Number.isFinite(this.audio.duration)) {
+      this.duration = this.audio.duration;
+    }
+  };
+
+  private handlePlayState = () => {
+    this.isPlaying = !this.audio.paused;
+  };
+
+  private async loadWaveform() {
+    try {
+      const response = await fetch(this.src);
+      const context = new AudioContext();
+      const buffer = await context.decodeAudioData(
+        await response.arrayBuffer(),
+      );
+      context.close();
+
+      const data = buffer.getChannelData(0);
+      const blockSize = Math.floor(data.length / WAVEFORM_BARS);
+      this.peaks = Array.from({length: WAVEFORM_BARS}, (_, bar) => {
+        let peak = 0;
+        for (let i = bar * blockSize; i < (bar + 1) * blockSize; i++) {
+          peak = Math.max(peak, Math.abs(data[i]));
+        }
+        return peak;
+      });
+      this.duration = buffer.duration;
+    } catch (e) {
+      console.error('Error loading recording waveform:', e);
+    }
+  }
+
+  private drawWaveform() {
+    const ctx = this.canvas?.getContext('2d');
+    if (!ctx) return;
+
+    const {width, height} = this.canvas;
+    ctx.clearRect(0, 0, width, height);
+    const barWidth = width / WAVEFORM_BARS;
+    const progress = this.duration ? this.currentTime / this.duration : 0;
+    const maxPeak = Math.max(...this.peaks, 0.01);
+
+    this.peaks.forEach((peak, i) => {
+      const barHeight = Math.max(2, (peak / maxPeak) * height);
+      ctx.fillStyle = i / WAVEFORM_BARS < progress ? '#4285f4' : '#555';
+      ctx.fillRect(
+        i * barWidth,
+        (height - barHeight) / 2,
+        barWidth * 0.7,
+        barHeight,
+      );
+    });
+  }
+
+  private handleWaveformClick(e: MouseEvent) {
+    if (!this.duration) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.seek(((e.clientX - rect.left) / rect.width) * this.duration);
+  }
+
+  private togglePlay() {
+    if (this.audio.paused) {
+      this.audio.play();
+    } else {
+      this.audio.pause();
+    }
+  }
+
+  private formatTime(seconds: number) {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+  }
+
+  render() {
+    return html`
+      <button
+        @click=${this.togglePlay}
+        aria-label=${this.isPlaying ? 'Pause' : 'Play'}>
+        ${this.isPlaying ? '❚❚' : '▶'}
+      </button>
+      <canvas @click=${this.handleWaveformClick}></canvas>
+      <span
+        >${this.formatTime(this.currentTime)} /
+        ${this.formatTime(this.duration)}</span
+      >
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-session-player': GdmSessionPlayer;
+  }
+}
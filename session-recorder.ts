@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const RECORDING_MIME_TYPES = [
+  {mimeType: 'audio/webm;codecs=opus', extension: 'webm'},
+  {mimeType: 'audio/mp4', extension: 'm4a'},
+];
+
+export interface SessionRecording {
+  blob: Blob;
+  extension: string;
+}
+
+/**
+ * Records the candidate's microphone and the examiner's output mixed into a
+ * single compressed file. The mix happens in the output context, so the
+ * microphone is resampled to 24 kHz alongside the examiner's voice.
+ */
+export class SessionRecorder {
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private format = RECORDING_MIME_TYPES[0];
+
+  constructor(
+    private readonly context: AudioContext,
+    private readonly examinerNode: AudioNode,
+  ) {}
+
+  start(micStream: MediaStream) {
+    const format = RECORDING_MIME_TYPES.find(({mimeType}) =>
+      MediaRecorder.isTypeSupported(mimeType),
+    );
+    if (!format) {
+      console.error('No supported recording format, session not recorded.');
+      return;
+    }
+
+    this.format = format;
+    this.destination = this.context.createMediaStreamDestination();
+    this.micSource = this.context.createMediaStreamSource(micStream);
+    this.micSource.connect(this.destination);
+    this.examinerNode.connect(this.destination);
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(this.destination.stream, {
+      mimeType: format.mimeType,
+    });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(1000);
+  }
+
+  /** Stops recording; resolves with nothing if no recording was running. */
+  stop(): Promise<SessionRecording | null> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        this.micSource?.disconnect();
+        this.examinerNode.disconnect(this.destination!);
+        this.micSource = null;
+        this.destination = null;
+        this.recorder = null;
+        resolve({
+          blob: new Blob(this.chunks, {type: this.format.mimeType}),
+          extension: this.format.extension,
+        });
+      };
+      recorder.stop();
+    });
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {BandReport} from './band-report';
+import type {FluencyMetrics} from './fluency-metrics';
+import type {PronunciationAssessment} from './pronunciation';
+import {supabase} from './supabase-client';
+
+export type ExamPart = 'part1' | 'part2' | 'part3';
+
+// Share links stop working after this many days.
+export const SHARE_LINK_TTL_DAYS = 7;
+export const HISTORY_PAGE_SIZE = 20;
+
+/** One practice session, as kept in the `sessions` table. */
+export interface SessionSummary {
+  id: string;
+  part: ExamPart | null;
+  cueCardId: string | null;
+  /** The cue card title for Part 2, or the Part 2 topic it follows for Part 3. */
+  topic: string | null;
+  startedAt: string;
+  durationSeconds: number | null;
+  /** Copied from the band report once the session has been assessed. */
+  overallBand: number | null;
+}
+
+/** One transcript line as shown in the history. */
+export interface HistoryMessage {
+  speaker: string;
+  text: string;
+  created_at: string;
+  turn_index: number | null;
+  audio_offset_ms: number | null;
+  audio_end_ms: number | null;
+}
+
+/** Narrows the session history. Empty fields do not filter. */
+export interface HistoryFilters {
+  /** Full-text search across the session's transcript. */
+  query: string;
+  part: ExamPart | '';
+  /** Inclusive `yyyy-mm-dd` dates in the user's time zone. */
+  from: string;
+  to: string;
+  minBand: number | null;
+  /** Matched against the cue card topic. */
+  topic: string;
+}
+
+export const NO_HISTORY_FILTERS: HistoryFilters = {
+  query: '',
+  part: '',
+  from: '',
+  to: '',
+  minBand: null,
+  topic: '',
+};
+
+/** Everything a tutor sees behind a share link. */
+export interface SharedReport {
+  session: SessionSummary;
+  transcript: Array<{speaker: string; text: string}>;
+  feedback: {feedback: string; report: BandReport | null} | null;
+  metrics: FluencyMetrics | null;
+  pronunciation: PronunciationAssessment | null;
+}
+
+/** A `sessions` row with the columns the history reads. */
+export interface SessionRow {
+  id: string;
+  part: ExamPart | null;
+  cue_card_id?: string | null;
+  topic?: string | null;
+  started_at: string;
+  duration_seconds?: number | null;
+  overall_band?: number | null;
+}
+
+export function toSessionSummary(row: SessionRow): SessionSummary {
+  return {
+    id: row.id,
+    part: row.part,
+    cueCardId: row.cue_card_id ?? null,
+    topic: row.topic ?? null,
+    startedAt: row.started_at,
+    durationSeconds: row.duration_seconds ?? null,
+    overallBand: row.overall_band ?? null,
+  };
+}
+
+function randomToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Creates a read-only link to a session's report. The token is the only
+ * credential: `get_shared_report` returns the report to anyone holding it
+ * until it expires.
+ */
+export async function createShareLink(userId: string, sessionId: string) {
+  const token = randomToken();
+  const expiresAt = new Date(
+    Date.now() + SHARE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const {error} = await supabase.from('session_shares').insert({
+    token,
+    session_id: sessionId,
+    user_id: userId,
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) throw error;
+
+  const {origin, pathname} = window.location;
+  return {url: `${origin}${pathname}#/report/${token}`, expiresAt};
+}
+
+export async function fetchSharedReport(token: string): Promise<SharedReport> {
+  const {data, error} = await supabase.rpc('get_shared_report', {
+    share_token: token,
+  });
+  if (error) throw error;
+  if (!data) {
+    throw new Error('This report link is invalid or has expired.');
+  }
+  return {
+    session: toSessionSummary(data.session),
+    transcript: data.transcript ?? [],
+    feedback: data.feedback ?? null,
+    metrics: data.metrics ?? null,
+    pronunciation: data.pronunciation ?? null,
+  };
+}
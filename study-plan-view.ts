@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {GoogleGenAI} from '@google/genai';
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {fetchPart3Themes} from './question-bank';
+import {
+  StudyDrill,
+  StudyPlan,
+  buildStudyPlanPrompt,
+  drillPart,
+  fetchLatestStudyPlan,
+  fetchStudyEvidence,
+  parseStudyPlan,
+  saveStudyPlan,
+  studyPlanSchema,
+} from './study-plan';
+
+/**
+ * A weekly plan of drills aimed at the candidate's recurring weaknesses.
+ * Starting a drill fires `start-drill` with the drill as its detail.
+ */
+@customElement('gdm-study-plan')
+export class GdmStudyPlan extends LitElement {
+  @property() userId = '';
+  @property({attribute: false}) client: GoogleGenAI | null = null;
+  @state() private plan: StudyPlan | null = null;
+  @state() private createdAt: string | null = null;
+  @state() private isLoading = true;
+  @state() private isGenerating = false;
+  @state() private message: {text: string; isError: boolean} | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      max-width: 900px;
+      margin: 0 auto;
+      padding: 20px;
+      text-align: left;
+    }
+    section {
+      background-color: #1e1e1e;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 16px;
+      margin-bottom: 20px;
+    }
+    h3 {
+      margin: 0 0 12px;
+      font-size: 1rem;
+      font-weight: 500;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 20px;
+      flex-wrap: wrap;
+      color: #aaa;
+      font-size: 0.9rem;
+    }
+    button {
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #555;
+      border-radius: 6px;
+      padding: 6px 12px;
+      cursor: pointer;
+      font-size: 0.85rem;
+    }
+    button:hover {
+      background-color: #444;
+    }
+    button.primary {
+      background-color: #4285f4;
+      border-color: #4285f4;
+      color: white;
+    }
+    button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+    .weakness {
+      margin-bottom: 10px;
+    }
+    .weakness span {
+      display: block;
+      font-size: 0.85rem;
+      color: #aaa;
+    }
+    .drill {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 10px 0;
+      border-bottom: 1px solid #333;
+    }
+    .drill:last-child {
+      border-bottom: none;
+    }
+    .drill-body {
+      flex: 1;
+    }
+    .drill-body p {
+      margin: 4px 0 0;
+      font-size: 0.85rem;
+      color: #bbb;
+    }
+    .drill-meta {
+      font-size: 0.75rem;
+      color: #8ab4f8;
+    }
+    .message.error {
+      color: #f28b82;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.load();
+  }
+
+  private async load() {
+    this.isLoading = true;
+    try {
+      const latest = await fetchLatestStudyPlan(this.userId);
+      this.plan = latest?.plan ?? null;
+      this.createdAt = latest?.createdAt ?? null;
+    } catch (e) {
+      console.error('Error loading study plan:', e);
+      this.message = {
+        text: `Could not load your study plan: ${(e as Error).message}`,
+        isError: true,
+      };
+    }
+    this.isLoading = false;
+  }
+
+  private async generate() {
+    if (!this.client) return;
+    this.isGenerating = true;
+    this.message = null;
+    try {
+      const [evidence, part3Themes] = await Promise.all([
+        fetchStudyEvidence(this.userId),
+        fetchPart3Themes(),
+      ]);
+      if (evidence.length === 0) {
+        throw new Error(
+          'Complete a practice session and get its feedback before building a plan.',
+        );
+      }
+
+      const response = await this.client.models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: buildStudyPlanPrompt(evidence, part3Themes),
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: studyPlanSchema(part3Themes),
+        },
+      });
+      const plan = parseStudyPlan(response.text, part3Themes);
+      this.createdAt = await saveStudyPlan(this.userId, plan);
+      this.plan = plan;
+    } catch (e) {
+      console.error('Error generating study plan:', e);
+      this.message = {text: (e as Error).message, isError: true};
+    }
+    this.isGenerating = false;
+  }
+
+  private startDrill(drill: StudyDrill) {
+    this.dispatchEvent(
+      new CustomEvent<StudyDrill>('start-drill', {
+        detail: drill,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private renderDrill(drill: StudyDrill) {
+    const target =
+      drill.cueCardCategory ?? drill.part3Theme ?? drill.words?.join(', ');
+    return html`
+      <li class="drill">
+        <div class="drill-body">
+          <span class="drill-meta">
+            Part ${drillPart(drill).slice(-1)}${target ? ` · ${target}` : ''}
+          </span>
+          <div>${drill.title}</div>
+          <p>${drill.instructions}</p>
+        </div>
+        <button @click=${() => this.startDrill(drill)}>Start</button>
+      </li>
+    `;
+  }
+
+  render() {
+    if (this.isLoading) {
+      return html`<p>Loading your study plan...</p>`;
+    }
+
+    return html`
+      <div class="toolbar">
+        <button
+          class="primary"
+          ?disabled=${this.isGenerating || !this.client}
+          @click=${this.generate}>
+          ${this.isGenerating
+            ? 'Building your plan...'
+            : this.plan
+              ? 'Rebuild from my latest sessions'
+              : 'Build my study plan'}
+        </button>
+        ${this.createdAt
+          ? html`<span>
+              Built ${new Date(this.createdAt).toLocaleDateString()}
+            </span>`
+          : ''}
+      </div>
+      ${this.message
+        ? html`<p class="message ${this.message.isError ? 'error' : ''}">
+            ${this.message.text}
+          </p>`
+        : ''}
+      ${this.plan
+        ? html`
+            <section>
+              <h3>What to work on</h3>
+              <ul>
+                ${this.plan.weaknesses.map(
+                  ({area, evidence}) => html`
+                    <li class="weakness">
+                      ${area}
+                      <span>${evidence}</span>
+                    </li>
+                  `,
+                )}
+              </ul>
+            </section>
+            ${this.plan.days.map(
+              ({day, drills}) => html`
+                <section>
+                  <h3>${day}</h3>
+                  <ul>
+                    ${drills.map((drill) => this.renderDrill(drill))}
+                  </ul>
+                </section>
+              `,
+            )}
+          `
+        : html`<p>
+            Your plan is built from the feedback on your recent sessions, so
+            it picks up the mistakes you keep making.
+          </p>`}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-study-plan': GdmStudyPlan;
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import {Schema, Type} from '@google/genai';
+import {BAND_CRITERIA, BandReport} from './band-report';
+import {CUE_CARD_CATEGORIES, CueCardCategory} from './cue-cards';
+import type {ExamPart} from './sessions';
+import {supabase} from './supabase-client';
+
+// The plan is built from this many of the most recent assessed sessions.
+const STUDY_PLAN_SESSIONS = 12;
+const PLAN_DAYS = 7;
+// A content word used this often in one session counts as overused.
+const OVERUSE_MIN_COUNT = 4;
+// Part 1 answers shorter than this on average are flagged as too brief.
+const SHORT_PART1_ANSWER_WORDS = 20;
+// Below this share of Part 3 answers giving a reason or example, opinions
+// are flagged as poorly justified.
+const MIN_JUSTIFIED_RATE = 0.5;
+
+// Function words that are expected to repeat.
+const STOPWORDS = new Set(
+  `a an the and or but if then so to of in on at by for with from as is am are
+was were be been being do does did have has had i me my mine we us our you your
+he him his she her it its they them their this that these those there here what
+which who when where why how not no yes can could will would should may might
+must just um uh er i'm it's don't that's i've i'd`.split(/\s+/),
+);
+const REASON_MARKERS =
+  /\b(because|since|therefore|for example|for instance|such as|that's why|which means|as a result|due to)\b/i;
+
+/**
+ * What one session says about the candidate's habits, worked out from the
+ * transcript when it is assessed and kept with its feedback.
+ */
+export interface SessionSignals {
+  part: ExamPart | null;
+  answers: number;
+  meanAnswerWords: number;
+  overusedWords: Array<{word: string; count: number}>;
+  /** Share of Part 3 answers that give a reason or an example. */
+  justifiedAnswerRate: number | null;
+}
+
+export function computeSessionSignals(
+  part: ExamPart | null,
+  transcripts: Array<{speaker: string; text: string}>,
+): SessionSignals {
+  const answers = transcripts
+    .filter((t) => t.speaker === 'Candidate' && t.text.trim())
+    .map((t) => t.text);
+  const words = answers.flatMap((a) => a.toLowerCase().match(/[a-z']+/g) ?? []);
+
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    if (!STOPWORDS.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  const overusedWords = [...counts]
+    .filter(([, count]) => count >= OVERUSE_MIN_COUNT)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([word, count]) => ({word, count}));
+
+  return {
+    part,
+    answers: answers.length,
+    meanAnswerWords: answers.length ? words.length / answers.length : 0,
+    overusedWords,
+    justifiedAnswerRate:
+      part === 'part3' && answers.length
+        ? answers.filter((a) => REASON_MARKERS.test(a)).length / answers.length
+        : null,
+  };
+}
+
+/** An assessed session as used to plan study. */
+export interface StudyEvidence {
+  part: ExamPart | null;
+  topic: string | null;
+  report: BandReport;
+  signals: SessionSignals | null;
+}
+
+/** A `session_feedback` row with its session embedded, alone or in a list. */
+interface StudyEvidenceRow {
+  report: BandReport;
+  signals: SessionSignals | null;
+  sessions:
+    | {part: ExamPart | null; topic: string | null}
+    | Array<{part: ExamPart | null; topic: string | null}>
+    | null;
+}
+
+export async function fetchStudyEvidence(
+  userId: string,
+): Promise<StudyEvidence[]> {
+  const {data, error} = await supabase
+    .from('session_feedback')
+    .select('report, signals, created_at, sessions(part, topic)')
+    .eq('user_id', userId)
+    .not('report', 'is', null)
+    .order('created_at', {ascending: false})
+    .limit(STUDY_PLAN_SESSIONS);
+  if (error) throw error;
+
+  return (data ?? []).map((row: StudyEvidenceRow) => {
+    const session = Array.isArray(row.sessions)
+      ? row.sessions[0]
+      : row.sessions;
+    return {
+      part: session?.part ?? row.signals?.part ?? null,
+      topic: session?.topic ?? null,
+      report: row.report,
+      signals: row.signals ?? null,
+    };
+  });
+}
+
+/**
+ * Weaknesses that show up across sessions, found without the model so the
+ * plan rests on counted evidence rather than impressions.
+ */
+export function recurringWeaknesses(evidence: StudyEvidence[]): string[] {
+  const weaknesses: string[] = [];
+
+  const overused = new Map<string, {sessions: number; count: number}>();
+  for (const {signals} of evidence) {
+    for (const {word, count} of signals?.overusedWords ?? []) {
+      const entry = overused.get(word) ?? {sessions: 0, count: 0};
+      overused.set(word, {
+        sessions: entry.sessions + 1,
+        count: entry.count + count,
+      });
+    }
+  }
+  const repeated = [...overused]
+    .filter(([, {sessions}]) => sessions >= 2)
+    .sort((a, b) => b[1].count - a[1].count);
+  if (repeated.length) {
+    weaknesses.push(
+      `Overused words: ${repeated
+        .map(
+          ([word, {sessions, count}]) =>
+            `"${word}" (${count} times in ${sessions} sessions)`,
+        )
+        .join(', ')}.`,
+    );
+  }
+
+  const part1 = evidence.filter((e) => e.signals?.part === 'part1');
+  if (part1.length) {
+    const mean =
+      part1.reduce((total, e) => total + e.signals!.meanAnswerWords, 0) /
+      part1.length;
+    if (mean < SHORT_PART1_ANSWER_WORDS) {
+      weaknesses.push(
+        `Part 1 answers average ${Math.round(mean)} words, too short to show range.`,
+      );
+    }
+  }
+
+  const part3 = evidence.filter((e) => e.signals?.justifiedAnswerRate != null);
+  if (part3.length) {
+    const rate =
+      part3.reduce((total, e) => total + e.signals!.justifiedAnswerRate!, 0) /
+      part3.length;
+    if (rate < MIN_JUSTIFIED_RATE) {
+      weaknesses.push(
+        `Only ${Math.round(rate * 100)}% of Part 3 answers give a reason or example.`,
+      );
+    }
+  }
+
+  for (const {key, label} of BAND_CRITERIA) {
+    const average =
+      evidence.reduce((total, e) => total + e.report[key].band, 0) /
+      evidence.length;
+    weaknesses.push(`Average ${label} band: ${average.toFixed(1)}.`);
+  }
+  return weaknesses;
+}
+
+export const STUDY_DRILL_KINDS = [
+  'part1',
+  'cueCard',
+  'part3Theme',
+  'vocabulary',
+] as const;
+
+/** One targeted practice session in the plan. */
+export interface StudyDrill {
+  kind: (typeof STUDY_DRILL_KINDS)[number];
+  title: string;
+  instructions: string;
+  cueCardCategory?: CueCardCategory;
+  part3Theme?: string;
+  words?: string[];
+}
+
+export interface StudyPlan {
+  weaknesses: Array<{area: string; evidence: string}>;
+  days: Array<{day: string; drills: StudyDrill[]}>;
+}
+
+/** The part of the test each kind of drill practises. */
+export function drillPart(drill: StudyDrill): ExamPart {
+  switch (drill.kind) {
+    case 'cueCard':
+      return 'part2';
+    case 'part3Theme':
+      return 'part3';
+    default:
+      return 'part1';
+  }
+}
+
+export function studyPlanSchema(part3Themes: string[]): Schema {
+  const drill: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      kind: {type: Type.STRING, enum: [...STUDY_DRILL_KINDS]},
+      title: {type: Type.STRING},
+      instructions: {type: Type.STRING},
+      cueCardCategory: {type: Type.STRING, enum: [...CUE_CARD_CATEGORIES]},
+      part3Theme: part3Themes.length
+        ? {type: Type.STRING, enum: part3Themes}
+        : {type: Type.STRING},
+      words: {type: Type.ARRAY, items: {type: Type.STRING}},
+    },
+    required: ['kind', 'title', 'instructions'],
+    propertyOrdering: [
+      'kind',
+      'title',
+      'instructions',
+      'cueCardCategory',
+      'part3Theme',
+      'words',
+    ],
+  };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      weaknesses: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            area: {type: Type.STRING},
+            evidence: {type: Type.STRING},
+          },
+          required: ['area', 'evidence'],
+          propertyOrdering: ['area', 'evidence'],
+        },
+      },
+      days: {
+        type: Type.ARRAY,
+        minItems: String(PLAN_DAYS),
+        maxItems: String(PLAN_DAYS),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            day: {type: Type.STRING},
+            drills: {type: Type.ARRAY, items: drill},
+          },
+          required: ['day', 'drills'],
+          propertyOrdering: ['day', 'drills'],
+        },
+      },
+    },
+    required: ['weaknesses', 'days'],
+    propertyOrdering: ['weaknesses', 'days'],
+  };
+}
+
+export function buildStudyPlanPrompt(
+  evidence: StudyEvidence[],
+  part3Themes: string[],
+): string {
+  const sessions = evidence
+    .map(({part, topic, report}, i) => {
+      const criteria = BAND_CRITERIA.map(
+        ({key, label}) =>
+          `  ${label} ${report[key].band}: ${report[key].justification} Quotes: ${report[key].quotes.map((q) => `"${q}"`).join(' ')}`,
+      ).join('\n');
+      return `Session ${i + 1} (${part ? `Part ${part.slice(-1)}` : 'unknown part'}${topic ? `, ${topic}` : ''}):\n${criteria}`;
+    })
+    .join('\n');
+
+  return `You are an IELTS speaking coach writing a ${PLAN_DAYS}-day study plan for a candidate.
+Identify the candidate's recurring weaknesses from the evidence below, such as overused words, grammar error patterns, short Part 1 answers and weakly justified Part 3 opinions. Name each weakness and cite the evidence for it.
+Then plan one to three drills per day that target those weaknesses. Each drill is a practice session the candidate can start straight away:
+- "part1": a Part 1 interview.
+- "cueCard": a Part 2 long turn; set cueCardCategory to one of ${CUE_CARD_CATEGORIES.join(', ')}.
+- "part3Theme": a Part 3 discussion; set part3Theme to one of: ${part3Themes.length ? part3Themes.join('; ') : '(none available, do not use this kind)'}.
+- "vocabulary": a Part 1 interview in which the candidate practises a set of five to eight words or phrases given in words, for example alternatives to an overused word.
+Write the instructions to the candidate in one or two sentences saying what to focus on.
+Recurring patterns counted from the transcripts:
+${recurringWeaknesses(evidence)
+  .map((w) => `- ${w}`)
+  .join('\n')}
+Recent examiner assessments, newest first:
+${sessions}`;
+}
+
+function parseDrill(value: unknown, part3Themes: string[]): StudyDrill | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Partial<Record<keyof StudyDrill, unknown>>;
+  if (
+    !STUDY_DRILL_KINDS.some((kind) => kind === raw.kind) ||
+    typeof raw.title !== 'string' ||
+    typeof raw.instructions !== 'string'
+  ) {
+    return null;
+  }
+  const drill: StudyDrill = {
+    kind: raw.kind as StudyDrill['kind'],
+    title: raw.title,
+    instructions: raw.instructions,
+  };
+  if (
+    drill.kind === 'cueCard' &&
+    CUE_CARD_CATEGORIES.some((category) => category === raw.cueCardCategory)
+  ) {
+    drill.cueCardCategory = raw.cueCardCategory as CueCardCategory;
+  }
+  if (drill.kind === 'part3Theme') {
+    // A theme the bank does not have cannot be started.
+    if (
+      typeof raw.part3Theme !== 'string' ||
+      !part3Themes.includes(raw.part3Theme)
+    ) {
+      return null;
+    }
+    drill.part3Theme = raw.part3Theme;
+  }
+  if (drill.kind === 'vocabulary') {
+    if (!Array.isArray(raw.words) || raw.words.length === 0) return null;
+    drill.words = raw.words.filter(
+      (w: unknown): w is string => typeof w === 'string',
+    );
+  }
+  return drill;
+}
+
+/**
+ * Validates the model output against `studyPlanSchema`, dropping drills that
+ * could not be started.
+ */
+export function parseStudyPlan(text: string, part3Themes: string[]): StudyPlan {
+  const raw = JSON.parse(text);
+  if (!Array.isArray(raw?.weaknesses) || !Array.isArray(raw?.days)) {
+    throw new Error('Study plan is missing weaknesses or days.');
+  }
+  return {
+    weaknesses: raw.weaknesses.filter(
+      (w: Partial<StudyPlan['weaknesses'][number]>) =>
+        typeof w?.area === 'string' && typeof w?.evidence === 'string',
+    ),
+    days: raw.days.map((day: {day?: unknown; drills?: unknown}, i: number) => ({
+      day: typeof day?.day === 'string' ? day.day : `Day ${i + 1}`,
+      drills: (Array.isArray(day?.drills) ? day.drills : [])
+        .map((drill: unknown) => parseDrill(drill, part3Themes))
+        .filter(Boolean),
+    })),
+  };
+}
+
+export async function fetchLatestStudyPlan(
+  userId: string,
+): Promise<{plan: StudyPlan; createdAt: string} | null> {
+  const {data, error} = await supabase
+    .from('study_plans')
+    .select('plan, created_at')
+    .eq('user_id', userId)
+    .order('created_at', {ascending: false})
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? {plan: data.plan, createdAt: data.created_at} : null;
+}
+
+export async function saveStudyPlan(userId: string, plan: StudyPlan) {
+  const {data, error} = await supabase
+    .from('study_plans')
+    .insert({user_id: userId, plan})
+    .select('created_at')
+    .single();
+  if (error) throw error;
+  return data.created_at as string;
+}
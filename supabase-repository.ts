@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {SupabaseClient} from '@supabase/supabase-js';
+import {CueCard, CueCardSelection, toCueCard} from './cue-cards';
+import {ExaminerPersona, parsePersona} from './examiner-persona';
+import type {
+  AuthSession,
+  FeedbackRecord,
+  NewFeedback,
+  NewSession,
+  Repository,
+  UserProfile,
+} from './repository';
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryFilters,
+  HistoryMessage,
+  SessionSummary,
+  toSessionSummary,
+} from './sessions';
+import type {TranscriptTurn} from './transcript-store';
+
+const SESSION_COLUMNS =
+  'id, part, cue_card_id, topic, started_at, duration_seconds, overall_band';
+
+const CUE_CARD_COLUMNS =
+  'id, title, bullets, category, difficulty, season_tags, bullet_a, bullet_b, bullet_c, bullet_d';
+
+/** The app's data in the Supabase project the client points at. */
+export class SupabaseRepository implements Repository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getAuthSession(): Promise<AuthSession | null> {
+    const {data} = await this.client.auth.getSession();
+    return data.session;
+  }
+
+  onAuthChange(callback: (session: AuthSession | null) => void) {
+    this.client.auth.onAuthStateChange((_event, session) => callback(session));
+  }
+
+  async signIn() {
+    await this.client.auth.signInWithOAuth({provider: 'google'});
+  }
+
+  async signOut() {
+    await this.client.auth.signOut();
+  }
+
+  async startSession(userId: string, session: NewSession) {
+    const {error} = await this.client.from('sessions').insert({
+      id: session.id,
+      user_id: userId,
+      part: session.part,
+      cue_card_id: session.cueCardId,
+      topic: session.topic,
+    });
+    if (error) throw error;
+  }
+
+  async finishSession(id: string, durationSeconds: number) {
+    const {error} = await this.client
+      .from('sessions')
+      .update({
+        ended_at: new Date().toISOString(),
+        duration_seconds: durationSeconds,
+      })
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  async setSessionBand(id: string, overallBand: number) {
+    const {error} = await this.client
+      .from('sessions')
+      .update({overall_band: overallBand})
+      .eq('id', id);
+    if (error) throw error;
+  }
+
+  async fetchSessionPage(
+    userId: string,
+    filters: HistoryFilters,
+    page: number,
+  ): Promise<{sessions: SessionSummary[]; hasMore: boolean}> {
+    let request = this.client
+      .from('sessions')
+      .select(SESSION_COLUMNS)
+      .eq('user_id', userId);
+
+    const query = filters.query.trim();
+    if (query) {
+      const {data, error} = await this.client
+        .from('transcripts')
+        .select('session_id')
+        .eq('user_id', userId)
+        .textSearch('text', query, {type: 'websearch', config: 'english'});
+      if (error) throw error;
+      request = request.in('id', [
+        ...new Set(data.map((row) => row.session_id)),
+      ]);
+    }
+    if (filters.part) {
+      request = request.eq('part', filters.part);
+    }
+    if (filters.from) {
+      request = request.gte(
+        'started_at',
+        new Date(`${filters.from}T00:00`).toISOString(),
+      );
+    }
+    if (filters.to) {
+      const end = new Date(`${filters.to}T00:00`);
+      end.setDate(end.getDate() + 1);
+      request = request.lt('started_at', end.toISOString());
+    }
+    if (filters.minBand !== null) {
+      request = request.gte('overall_band', filters.minBand);
+    }
+    const topic = filters.topic.trim();
+    if (topic) {
+      request = request.ilike('topic', `%${topic}%`);
+    }
+
+    // Ask for one extra row to learn whether there is another page.
+    const start = page * HISTORY_PAGE_SIZE;
+    const {data, error} = await request
+      .order('started_at', {ascending: false})
+      .range(start, start + HISTORY_PAGE_SIZE);
+    if (error) throw error;
+    return {
+      sessions: data.slice(0, HISTORY_PAGE_SIZE).map(toSessionSummary),
+      hasMore: data.length > HISTORY_PAGE_SIZE,
+    };
+  }
+
+  async fetchSessionSummary(id: string): Promise<SessionSummary | null> {
+    const {data, error} = await this.client
+      .from('sessions')
+      .select(SESSION_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toSessionSummary(data) : null;
+  }
+
+  async fetchSessionsMissingFeedback(
+    userId: string,
+    limit: number,
+  ): Promise<SessionSummary[]> {
+    const {data, error} = await this.client
+      .from('sessions')
+      .select(`${SESSION_COLUMNS}, session_feedback(session_id)`)
+      .eq('user_id', userId)
+      .is('session_feedback', null)
+      .order('started_at', {ascending: false})
+      .limit(limit);
+    if (error) throw error;
+    return (data ?? []).map(toSessionSummary);
+  }
+
+  async saveTranscriptTurns(turns: TranscriptTurn[]) {
+    const {error} = await this.client
+      .from('transcripts')
+      .upsert(turns, {onConflict: 'session_id,turn_index'});
+    if (error) throw error;
+  }
+
+  async fetchSessionTranscripts(sessionId: string): Promise<HistoryMessage[]> {
+    const {data, error} = await this.client
+      .from('transcripts')
+      .select(
+        'speaker, text, created_at, turn_index, audio_offset_ms, audio_end_ms',
+      )
+      .eq('session_id', sessionId)
+      // Replayed turns are written late, so only the index gives the order.
+      // Turns saved before it existed have none and fall back to their time.
+      .order('turn_index', {ascending: true, nullsFirst: false})
+      .order('created_at', {ascending: true});
+    if (error) throw error;
+    return data ?? [];
+  }
+
+  async saveFeedback({
+    sessionId,
+    userId,
+    feedback,
+    report,
+    signals,
+  }: NewFeedback) {
+    const {error} = await this.client.from('session_feedback').upsert(
+      {
+        session_id: sessionId,
+        user_id: userId,
+        feedback,
+        report,
+        signals,
+      },
+      {onConflict: 'session_id'},
+    );
+    if (error) throw error;
+  }
+
+  async fetchFeedback(
+    sessionIds: string[],
+  ): Promise<Record<string, FeedbackRecord>> {
+    const {data, error} = await this.client
+      .from('session_feedback')
+      .select('session_id, feedback, report')
+      .in('session_id', sessionIds);
+    if (error) throw error;
+    return Object.fromEntries(
+      (data ?? []).map((row) => [
+        row.session_id,
+        {feedback: row.feedback, report: row.report ?? null},
+      ]),
+    );
+  }
+
+  async fetchProfile(userId: string): Promise<UserProfile | null> {
+    const {data, error} = await this.client
+      .from('profiles')
+      .select('credits, role, examiner_persona')
+      .eq('id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data
+      ? {
+          credits: data.credits,
+          isAdmin: data.role === 'admin',
+          examinerPersona: parsePersona(data.examiner_persona),
+        }
+      : null;
+  }
+
+  async saveExaminerPersona(userId: string, persona: ExaminerPersona) {
+    const {error} = await this.client
+      .from('profiles')
+      .update({examiner_persona: persona})
+      .eq('id', userId);
+    if (error) throw error;
+  }
+
+  /** `deduct_credits` always charges the signed-in user. */
+  async deductCredits(_userId: string, seconds: number): Promise<number> {
+    const {data, error} = await this.client.rpc('deduct_credits', {
+      seconds_to_deduct: seconds,
+    });
+    if (error) throw error;
+    return data;
+  }
+
+  async fetchCueCards(
+    selection: Omit<CueCardSelection, 'cardId'>,
+  ): Promise<CueCard[]> {
+    let query = this.client
+      .from('ielts_part2_cues')
+      .select(CUE_CARD_COLUMNS)
+      .eq('retired', false)
+      .order('title');
+    if (selection.category) query = query.eq('category', selection.category);
+    if (selection.difficulty) {
+      query = query.eq('difficulty', selection.difficulty);
+    }
+
+    const {data, error} = await query;
+    if (error) throw error;
+    return (data ?? []).map(toCueCard);
+  }
+
+  async fetchCueCard(id: string): Promise<CueCard | null> {
+    const {data, error} = await this.client
+      .from('ielts_part2_cues')
+      .select(CUE_CARD_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toCueCard(data) : null;
+  }
+
+  async fetchCueCardAttempts(userId: string): Promise<Map<string, number>> {
+    const {data, error} = await this.client
+      .from('cue_card_attempts')
+      .select('cue_card_id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', {ascending: false});
+    if (error) throw error;
+
+    // Most recent attempt per card, newest first.
+    const lastAttempt = new Map<string, number>();
+    for (const {cue_card_id, created_at} of data ?? []) {
+      if (!lastAttempt.has(cue_card_id)) {
+        lastAttempt.set(cue_card_id, new Date(created_at).getTime());
+      }
+    }
+    return lastAttempt;
+  }
+
+  async recordCueCardAttempt(
+    userId: string,
+    cueCardId: string,
+    sessionId: string,
+  ) {
+    const {error} = await this.client.from('cue_card_attempts').insert({
+      user_id: userId,
+      cue_card_id: cueCardId,
+      session_id: sessionId,
+    });
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,97 @@
+-- The tables, policies and credit function the app started out with.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  credits integer not null default 0
+);
+
+alter table public.profiles enable row level security;
+
+drop policy if exists "Users read their own profile" on public.profiles;
+create policy "Users read their own profile" on public.profiles
+  for select using (auth.uid() = id);
+
+drop policy if exists "Users update their own profile" on public.profiles;
+create policy "Users update their own profile" on public.profiles
+  for update using (auth.uid() = id) with check (auth.uid() = id);
+
+-- Credits are only changed by deduct_credits and the service role; later
+-- migrations grant the columns users may change themselves.
+revoke update on public.profiles from anon, authenticated;
+
+-- Charges the signed-in user and returns the credits they have left.
+create or replace function public.deduct_credits(seconds_to_deduct integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  remaining integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in';
+  end if;
+  if seconds_to_deduct is null or seconds_to_deduct < 0 then
+    raise exception 'Invalid number of seconds';
+  end if;
+
+  update public.profiles
+    set credits = greatest(credits - seconds_to_deduct, 0)
+    where id = auth.uid()
+    returning credits into remaining;
+  return remaining;
+end;
+$$;
+
+revoke execute on function public.deduct_credits(integer) from public, anon;
+grant execute on function public.deduct_credits(integer) to authenticated;
+
+create table if not exists public.ielts_part2_cues (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  bullet_a text,
+  bullet_b text,
+  bullet_c text,
+  bullet_d text
+);
+
+alter table public.ielts_part2_cues enable row level security;
+
+drop policy if exists "Signed-in users read the bank" on public.ielts_part2_cues;
+create policy "Signed-in users read the bank" on public.ielts_part2_cues
+  for select to authenticated using (true);
+
+create table if not exists public.transcripts (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  session_id uuid not null,
+  speaker text not null,
+  text text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.session_feedback (
+  id bigint generated by default as identity primary key,
+  session_id uuid not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  feedback text not null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+declare
+  owned text;
+begin
+  foreach owned in array array['transcripts', 'session_feedback'] loop
+    execute format('alter table public.%I enable row level security', owned);
+    execute format('drop policy if exists "Users manage their own rows" on public.%I', owned);
+    execute format(
+      'create policy "Users manage their own rows" on public.%I
+         for all to authenticated
+         using (auth.uid() = user_id) with check (auth.uid() = user_id)',
+      owned
+    );
+  end loop;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- A full mock test links the sessions of its three parts.
+create table if not exists public.exams (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  part1_session_id uuid,
+  part2_session_id uuid,
+  part3_session_id uuid,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+alter table public.exams enable row level security;
+
+drop policy if exists "Users manage their own exams" on public.exams;
+create policy "Users manage their own exams" on public.exams
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- The structured band report behind the feedback summary.
+alter table public.session_feedback
+  add column if not exists report jsonb;
+
+-- One assessment per session: keep the newest of any duplicates, then let
+-- feedback be upserted by session.
+delete from public.session_feedback older
+  using public.session_feedback newer
+  where older.session_id = newer.session_id
+    and (older.created_at, older.id) < (newer.created_at, newer.id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'session_feedback_session_id_key'
+  ) then
+    alter table public.session_feedback
+      add constraint session_feedback_session_id_key unique (session_id);
+  end if;
+end;
+$$;
@@ -0,0 +1,7 @@
+-- Turns are upserted as they finish, keyed by their place in the session, so
+-- that replaying the offline queue never duplicates them.
+alter table public.transcripts
+  add column if not exists turn_index integer;
+
+create unique index if not exists transcripts_session_turn_idx
+  on public.transcripts (session_id, turn_index);
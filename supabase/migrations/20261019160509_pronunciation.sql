@@ -0,0 +1,15 @@
+create table if not exists public.session_pronunciation (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  assessment jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_pronunciation enable row level security;
+
+drop policy if exists "Users manage their own pronunciation"
+  on public.session_pronunciation;
+create policy "Users manage their own pronunciation"
+  on public.session_pronunciation
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
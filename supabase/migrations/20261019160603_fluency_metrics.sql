@@ -0,0 +1,13 @@
+create table if not exists public.session_metrics (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  metrics jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_metrics enable row level security;
+
+drop policy if exists "Users manage their own metrics" on public.session_metrics;
+create policy "Users manage their own metrics" on public.session_metrics
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- Where each turn starts in the session recording.
+alter table public.transcripts
+  add column if not exists audio_offset_ms integer;
+
+-- Recordings are stored as `<user id>/<session id>.<extension>`.
+insert into storage.buckets (id, name, public)
+values ('session-audio', 'session-audio', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users manage their own recordings" on storage.objects;
+create policy "Users manage their own recordings" on storage.objects
+  for all to authenticated
+  using (
+    bucket_id = 'session-audio'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  )
+  with check (
+    bucket_id = 'session-audio'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,4 @@
+-- Each turn's end and its deltas on the recording's clock.
+alter table public.transcripts
+  add column if not exists audio_end_ms integer,
+  add column if not exists deltas jsonb not null default '[]';
@@ -0,0 +1,25 @@
+alter table public.ielts_part2_cues
+  add column if not exists bullets text[] not null default '{}',
+  add column if not exists category text,
+  add column if not exists difficulty text,
+  add column if not exists season_tags text[] not null default '{}';
+
+-- Which cards each user has had, so that they are not repeated.
+create table if not exists public.cue_card_attempts (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  cue_card_id uuid not null
+    references public.ielts_part2_cues (id) on delete cascade,
+  session_id uuid,
+  created_at timestamptz not null default now()
+);
+create index if not exists cue_card_attempts_user_idx
+  on public.cue_card_attempts (user_id, created_at desc);
+
+alter table public.cue_card_attempts enable row level security;
+
+drop policy if exists "Users manage their own attempts"
+  on public.cue_card_attempts;
+create policy "Users manage their own attempts" on public.cue_card_attempts
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,60 @@
+alter table public.profiles
+  add column if not exists role text not null default 'user'
+    check (role in ('user', 'admin'));
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles where id = auth.uid() and role = 'admin'
+  );
+$$;
+
+alter table public.ielts_part2_cues
+  add column if not exists retired boolean not null default false;
+
+create table if not exists public.ielts_part1_topics (
+  id uuid primary key default gen_random_uuid(),
+  topic text not null,
+  questions text[] not null,
+  retired boolean not null default false
+);
+
+create table if not exists public.ielts_part3_pools (
+  id uuid primary key default gen_random_uuid(),
+  theme text not null,
+  questions text[] not null,
+  category text,
+  cue_card_id uuid references public.ielts_part2_cues (id) on delete set null,
+  retired boolean not null default false
+);
+
+-- Everyone signed in reads the bank; only admins curate it.
+do $$
+declare
+  bank text;
+begin
+  foreach bank in array array[
+    'ielts_part2_cues', 'ielts_part1_topics', 'ielts_part3_pools'
+  ] loop
+    execute format('alter table public.%I enable row level security', bank);
+    execute format('drop policy if exists "Signed-in users read the bank" on public.%I', bank);
+    execute format(
+      'create policy "Signed-in users read the bank" on public.%I
+         for select to authenticated using (true)',
+      bank
+    );
+    execute format('drop policy if exists "Admins curate the bank" on public.%I', bank);
+    execute format(
+      'create policy "Admins curate the bank" on public.%I
+         for all to authenticated
+         using (public.is_admin()) with check (public.is_admin())',
+      bank
+    );
+  end loop;
+end;
+$$;
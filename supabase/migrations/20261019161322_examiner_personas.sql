@@ -0,0 +1,4 @@
+alter table public.profiles
+  add column if not exists examiner_persona jsonb;
+
+grant update (examiner_persona) on public.profiles to authenticated;
@@ -0,0 +1,19 @@
+-- How each Part 2 long turn went: its length and how often the candidate
+-- had to be prompted.
+create table if not exists public.part2_long_turns (
+  session_id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  cue_card_id uuid references public.ielts_part2_cues (id) on delete set null,
+  speaking_seconds integer not null,
+  ended_early boolean not null default false,
+  prompts integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+alter table public.part2_long_turns enable row level security;
+
+drop policy if exists "Users manage their own long turns"
+  on public.part2_long_turns;
+create policy "Users manage their own long turns" on public.part2_long_turns
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
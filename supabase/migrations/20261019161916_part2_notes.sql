@@ -0,0 +1,21 @@
+alter table public.part2_long_turns
+  add column if not exists notes text,
+  add column if not exists sketch_path text,
+  add column if not exists notes_comparison jsonb;
+
+-- Sketches are stored as `<user id>/<session id>.png`.
+insert into storage.buckets (id, name, public)
+values ('session-notes', 'session-notes', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users manage their own note sketches" on storage.objects;
+create policy "Users manage their own note sketches" on storage.objects
+  for all to authenticated
+  using (
+    bucket_id = 'session-notes'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  )
+  with check (
+    bucket_id = 'session-notes'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,103 @@
+-- One row per practice session, written when it starts and when it ends.
+create table if not exists public.sessions (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  part text check (part in ('part1', 'part2', 'part3')),
+  cue_card_id uuid references public.ielts_part2_cues (id) on delete set null,
+  topic text,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  duration_seconds integer
+);
+create index if not exists sessions_user_started_idx
+  on public.sessions (user_id, started_at desc);
+
+alter table public.sessions enable row level security;
+
+drop policy if exists "Users manage their own sessions" on public.sessions;
+create policy "Users manage their own sessions" on public.sessions
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Share tokens are never readable by clients: only their owner may create or
+-- revoke them, and get_shared_report looks them up on a viewer's behalf.
+create table if not exists public.session_shares (
+  token text primary key check (length(token) >= 32),
+  session_id uuid not null references public.sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_shares enable row level security;
+
+drop policy if exists "Users share their own sessions" on public.session_shares;
+create policy "Users share their own sessions" on public.session_shares
+  for insert to authenticated
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.sessions s
+      where s.id = session_id and s.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users revoke their own shares" on public.session_shares;
+create policy "Users revoke their own shares" on public.session_shares
+  for delete to authenticated using (auth.uid() = user_id);
+
+-- The report behind a share link, or null when the token is unknown or has
+-- expired. Runs as the owner so that anyone holding a live token can read
+-- that one session, and nothing else, without signing in.
+create or replace function public.get_shared_report(share_token text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  shared_session_id uuid;
+begin
+  select session_id into shared_session_id
+    from public.session_shares
+    where token = share_token and expires_at > now();
+  if shared_session_id is null then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'session', (
+      select to_jsonb(s) - 'user_id' - 'ended_at'
+      from public.sessions s
+      where s.id = shared_session_id
+    ),
+    'transcript', coalesce((
+      select jsonb_agg(
+        jsonb_build_object('speaker', t.speaker, 'text', t.text)
+        order by t.turn_index nulls last, t.created_at
+      )
+      from public.transcripts t
+      where t.session_id = shared_session_id
+    ), '[]'::jsonb),
+    'feedback', (
+      select jsonb_build_object('feedback', f.feedback, 'report', f.report)
+      from public.session_feedback f
+      where f.session_id = shared_session_id
+      order by f.created_at desc
+      limit 1
+    ),
+    'metrics', (
+      select m.metrics from public.session_metrics m
+      where m.session_id = shared_session_id
+    ),
+    'pronunciation', (
+      select p.assessment from public.session_pronunciation p
+      where p.session_id = shared_session_id
+    )
+  );
+end;
+$$;
+
+revoke execute on function public.get_shared_report(text) from public;
+grant execute on function public.get_shared_report(text) to anon, authenticated;
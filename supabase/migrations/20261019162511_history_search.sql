@@ -0,0 +1,35 @@
+alter table public.sessions
+  add column if not exists overall_band numeric(2, 1);
+
+create index if not exists transcripts_text_search_idx
+  on public.transcripts using gin (to_tsvector('english', text));
+
+-- Sessions recorded before the sessions table existed only have transcripts.
+-- Give each of them a row so that they show up in the history; their part
+-- and band are unknown.
+insert into public.sessions (id, user_id, started_at, ended_at, duration_seconds)
+select
+  session_id,
+  (array_agg(user_id order by created_at))[1],
+  min(created_at),
+  max(created_at),
+  extract(epoch from max(created_at) - min(created_at))::integer
+from public.transcripts
+group by session_id
+on conflict (id) do nothing;
+
+-- The history finds sessions without feedback by embedding it, which needs
+-- the foreign key. Older feedback may predate its session row, so existing
+-- rows are not checked.
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'session_feedback_session_id_fkey'
+  ) then
+    alter table public.session_feedback
+      add constraint session_feedback_session_id_fkey
+      foreign key (session_id) references public.sessions (id)
+      on delete cascade not valid;
+  end if;
+end;
+$$;
@@ -0,0 +1,5 @@
+alter table public.profiles
+  add column if not exists target_band numeric(2, 1),
+  add column if not exists exam_date date;
+
+grant update (target_band, exam_date) on public.profiles to authenticated;
@@ -0,0 +1,19 @@
+-- What each assessed session says about the candidate's habits.
+alter table public.session_feedback
+  add column if not exists signals jsonb;
+
+create table if not exists public.study_plans (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plan jsonb not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists study_plans_user_created_idx
+  on public.study_plans (user_id, created_at desc);
+
+alter table public.study_plans enable row level security;
+
+drop policy if exists "Users manage their own study plans" on public.study_plans;
+create policy "Users manage their own study plans" on public.study_plans
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,25 @@
+create table if not exists public.vocabulary_notebook (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  word text not null,
+  definition text not null,
+  example text,
+  topic text,
+  source_session_id uuid references public.sessions (id) on delete set null,
+  ease real not null default 2.5,
+  repetitions integer not null default 0,
+  interval_days integer not null default 0,
+  due_at timestamptz not null default now(),
+  activated_at timestamptz,
+  activated_session_id uuid references public.sessions (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (user_id, word)
+);
+
+alter table public.vocabulary_notebook enable row level security;
+
+drop policy if exists "Users manage their own notebook"
+  on public.vocabulary_notebook;
+create policy "Users manage their own notebook" on public.vocabulary_notebook
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
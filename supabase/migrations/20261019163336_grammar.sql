@@ -0,0 +1,13 @@
+create table if not exists public.session_grammar (
+  session_id uuid primary key references public.sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  annotations jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.session_grammar enable row level security;
+
+drop policy if exists "Users manage their own grammar" on public.session_grammar;
+create policy "Users manage their own grammar" on public.session_grammar
+  for all to authenticated
+  using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {TranscriptDelta} from './exam-session';
+import {openDatabase, runTransaction} from './indexed-db';
+import {repository} from './repository';
+
+export interface TranscriptTurn {
+  user_id: string;
+  session_id: string;
+  turn_index: number;
+  speaker: string;
+  text: string;
+  audio_offset_ms: number | null;
+  audio_end_ms: number | null;
+  deltas: TranscriptDelta[];
+}
+
+const DB_NAME = 'ielts-examiner';
+const DB_VERSION = 1;
+const PENDING_TURNS_STORE = 'pending-turns';
+
+/**
+ * Writes finalized transcript turns as they complete. Every turn is queued in
+ * IndexedDB before it is upserted, so turns that could not be sent because of
+ * a crash or a dropped connection are replayed on the next load. Upserts are
+ * keyed by session and turn index, which makes replays idempotent.
+ */
+export class TranscriptStore {
+  private db: Promise<IDBDatabase | null>;
+  private inFlight = new Set<Promise<void>>();
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      db.createObjectStore(PENDING_TURNS_STORE, {
+        keyPath: ['session_id', 'turn_index'],
+      });
+    }).catch((e) => {
+      console.error('IndexedDB is unavailable, turns will not be queued:', e);
+      return null;
+    });
+  }
+
+  saveTurn(turn: TranscriptTurn) {
+    const saving = this.queueAndSend(turn);
+    this.inFlight.add(saving);
+    saving.finally(() => this.inFlight.delete(saving));
+    return saving;
+  }
+
+  /** Resolves once every turn handed to `saveTurn` has been attempted. */
+  async flush() {
+    await Promise.all(this.inFlight);
+  }
+
+  /** Sends the queued turns left over from earlier visits by this user. */
+  async replayPending(userId: string) {
+    const db = await this.db;
+    if (!db) return;
+
+    let pending: TranscriptTurn[];
+    try {
+      pending = await runTransaction<TranscriptTurn[]>(
+        db,
+        PENDING_TURNS_STORE,
+        'readonly',
+        (store) => store.getAll(),
+      );
+    } catch (e) {
+      console.error('Error reading queued transcript turns:', e);
+      return;
+    }
+    const turns = pending.filter((turn) => turn.user_id === userId);
+    if (turns.length === 0) return;
+
+    if (await this.upsert(turns)) {
+      await Promise.all(turns.map((turn) => this.dequeue(db, turn)));
+    }
+  }
+
+  private async queueAndSend(turn: TranscriptTurn) {
+    const db = await this.db;
+    if (db) {
+      try {
+        await runTransaction(db, PENDING_TURNS_STORE, 'readwrite', (store) =>
+          store.put(turn),
+        );
+      } catch (e) {
+        console.error('Error queueing transcript turn:', e);
+      }
+    }
+
+    if ((await this.upsert([turn])) && db) {
+      await this.dequeue(db, turn);
+    }
+  }
+
+  private async upsert(turns: TranscriptTurn[]) {
+    try {
+      await repository.saveTranscriptTurns(turns);
+      return true;
+    } catch (e) {
+      console.error('Error saving transcript turns:', (e as Error).message);
+      return false;
+    }
+  }
+
+  private async dequeue(db: IDBDatabase, turn: TranscriptTurn) {
+    try {
+      await runTransaction(db, PENDING_TURNS_STORE, 'readwrite', (store) =>
+        store.delete([turn.session_id, turn.turn_index]),
+      );
+    } catch (e) {
+      console.error('Error removing sent transcript turn from queue:', e);
+    }
+  }
+}
@@ -70,4 +70,66 @@ async function decodeAudioData(
   return buffer;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+/**
+ * Wraps mono float samples in a 16-bit PCM WAV container.
+ */
+function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, sample * 32767, true);
+  }
+  return bytes;
+}
+
+/**
+ * Splits text into plain runs and the marked spans found in it, in reading
+ * order. Spans that cannot be found or overlap an earlier one are skipped.
+ */
+function splitSpans<T extends {span: string}>(
+  text: string,
+  marks: T[] = [],
+): Array<{text: string; mark: T | null}> {
+  const located = marks
+    .map((mark) => ({mark, start: text.indexOf(mark.span)}))
+    .filter(({start}) => start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: Array<{text: string; mark: T | null}> = [];
+  let position = 0;
+  for (const {mark, start} of located) {
+    if (start < position) continue;
+    if (start > position) {
+      segments.push({text: text.slice(position, start), mark: null});
+    }
+    segments.push({text: mark.span, mark});
+    position = start + mark.span.length;
+  }
+  if (position < text.length) {
+    segments.push({text: text.slice(position), mark: null});
+  }
+  return segments;
+}
+
+export {createBlob, decode, decodeAudioData, encode, encodeWav, splitSpans};
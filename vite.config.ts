@@ -4,11 +4,22 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // MOCK_LIVE=true swaps the Live API for the scripted examiner in
+    // mock-live.ts. The client still needs a key, so a placeholder will do.
+    const mockLive = env.MOCK_LIVE === 'true';
+    const apiKey = env.GEMINI_API_KEY ?? (mockLive ? 'mock-live' : undefined);
+    // LOCAL_DATA=true keeps sessions, transcripts, feedback, the profile and
+    // cue cards in IndexedDB (local-repository.ts) instead of Supabase.
+    const localData = env.LOCAL_DATA === 'true';
     return {
       plugins: [],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.MOCK_LIVE': JSON.stringify(mockLive),
+        'process.env.LOCAL_DATA': JSON.stringify(localData),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY)
       },
       resolve: {
         alias: {
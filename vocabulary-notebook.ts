@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LitElement, css, html} from 'lit';
+import {customElement, property, state} from 'lit/decorators.js';
+import {
+  REVIEW_GRADES,
+  ReviewGrade,
+  VocabularyEntry,
+  fetchNotebook,
+  isDue,
+  saveReview,
+  scheduleReview,
+} from './vocabulary';
+
+/**
+ * The words suggested in the candidate's feedback, with spaced-repetition
+ * review cards.
+ */
+@customElement('gdm-vocabulary-notebook')
+export class GdmVocabularyNotebook extends LitElement {
+  @property() userId = '';
+  @state() private entries: VocabularyEntry[] = [];
+  @state() private reviewQueue: VocabularyEntry[] | null = null;
+  @state() private isRevealed = false;
+  @state() private isLoading = true;
+  @state() private message: {text: string; isError: boolean} | null = null;
+
+  static styles = css`
+    :host {
+      display: block;
+      color: #e0e0e0;
+      max-width: 900px;
+      margin: 0 auto;
+      padding: 20px;
+      text-align: left;
+    }
+    .toolbar {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 20px;
+      flex-wrap: wrap;
+      color: #aaa;
+      font-size: 0.9rem;
+    }
+    button {
+      background-color: #333;
+      color: #e0e0e0;
+      border: 1px solid #555;
+      border-radius: 6px;
+      padding: 8px 14px;
+      cursor: pointer;
+      font-size: 0.9rem;
+    }
+    button:hover {
+      background-color: #444;
+    }
+    button.primary {
+      background-color: #4285f4;
+      border-color: #4285f4;
+      color: white;
+    }
+    button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+    .review-card {
+      background-color: #1e1e1e;
+      border: 1px solid #444;
+      border-radius: 8px;
+      padding: 30px;
+      text-align: center;
+    }
+    .review-card .word {
+      font-size: 1.8rem;
+      margin-bottom: 8px;
+    }
+    .review-card .actions {
+      display: flex;
+      justify-content: center;
+      gap: 8px;
+      margin-top: 20px;
+    }
+    .definition {
+      color: #ddd;
+    }
+    .example {
+      color: #aaa;
+      font-style: italic;
+    }
+    .topic,
+    .schedule {
+      font-size: 0.8rem;
+      color: #888;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+    }
+    li {
+      padding: 12px 0;
+      border-bottom: 1px solid #333;
+    }
+    li p {
+      margin: 4px 0;
+    }
+    .entry-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+    .entry-header strong {
+      flex: 1;
+      font-size: 1.05rem;
+    }
+    .badge {
+      font-size: 0.75rem;
+      border-radius: 10px;
+      padding: 2px 8px;
+      background-color: #333;
+    }
+    .badge.activated {
+      background-color: #1e3a1e;
+      color: #81c995;
+    }
+    .badge.due {
+      background-color: #3a331e;
+      color: #fdd663;
+    }
+    .message.error {
+      color: #f28b82;
+    }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.load();
+  }
+
+  private async load() {
+    this.isLoading = true;
+    try {
+      this.entries = await fetchNotebook(this.userId);
+    } catch (e) {
+      console.error('Error loading vocabulary notebook:', e);
+      this.message = {
+        text: `Could not load your notebook: ${(e as Error).message}`,
+        isError: true,
+      };
+    }
+    this.isLoading = false;
+  }
+
+  private startReview() {
+    this.reviewQueue = this.entries.filter((entry) => isDue(entry));
+    this.isRevealed = false;
+  }
+
+  private async grade(grade: ReviewGrade) {
+    const [current, ...rest] = this.reviewQueue!;
+    const reviewed = scheduleReview(current, grade);
+    this.entries = this.entries.map((entry) =>
+      entry.id === reviewed.id ? reviewed : entry,
+    );
+    // Words the candidate could not recall come back in this review.
+    this.reviewQueue = grade === 'again' ? [...rest, reviewed] : rest;
+    this.isRevealed = false;
+
+    try {
+      await saveReview(reviewed);
+    } catch (e) {
+      console.error('Error saving vocabulary review:', e);
+      this.message = {text: (e as Error).message, isError: true};
+    }
+  }
+
+  private renderReview() {
+    const [current] = this.reviewQueue!;
+    if (!current) {
+      return html`
+        <div class="review-card">
+          <p>All caught up. New words arrive with your session feedback.</p>
+          <button @click=${() => (this.reviewQueue = null)}>Done</button>
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="review-card">
+        <div class="word">${current.word}</div>
+        ${current.topic
+          ? html`<div class="topic">From: ${current.topic}</div>`
+          : ''}
+        ${this.isRevealed
+          ? html`
+              <p class="definition">${current.definition}</p>
+              <p class="example">${current.example}</p>
+              <div class="actions">
+                ${REVIEW_GRADES.map(
+                  ({grade, label}) =>
+                    html`<button @click=${() => this.grade(grade)}>
+                      ${label}
+                    </button>`,
+                )}
+              </div>
+            `
+          : html`<div class="actions">
+              <button
+                class="primary"
+                @click=${() => (this.isRevealed = true)}>
+                Show meaning
+              </button>
+            </div>`}
+        <p class="schedule">${this.reviewQueue!.length} left in this review</p>
+      </div>
+    `;
+  }
+
+  private renderEntry(entry: VocabularyEntry) {
+    return html`
+      <li>
+        <div class="entry-header">
+          <strong>${entry.word}</strong>
+          ${entry.activatedAt
+            ? html`<span
+                class="badge activated"
+                title="You used this word in a session">
+                Activated
+              </span>`
+            : ''}
+          ${isDue(entry) ? html`<span class="badge due">Due</span>` : ''}
+        </div>
+        <p class="definition">${entry.definition}</p>
+        <p class="example">${entry.example}</p>
+        <p class="schedule">
+          ${entry.topic ? `${entry.topic} · ` : ''}Next review
+          ${new Date(entry.dueAt).toLocaleDateString()}
+        </p>
+      </li>
+    `;
+  }
+
+  render() {
+    if (this.isLoading) {
+      return html`<p>Loading your notebook...</p>`;
+    }
+
+    const due = this.entries.filter((entry) => isDue(entry)).length;
+    const activated = this.entries.filter((entry) => entry.activatedAt).length;
+    return html`
+      ${this.message
+        ? html`<p class="message ${this.message.isError ? 'error' : ''}">
+            ${this.message.text}
+          </p>`
+        : ''}
+      ${this.reviewQueue
+        ? this.renderReview()
+        : html`
+            <div class="toolbar">
+              <button
+                class="primary"
+                ?disabled=${due === 0}
+                @click=${this.startReview}>
+                Review ${due} due
+              </button>
+              <span>
+                ${this.entries.length} words · ${activated} used in your
+                sessions
+              </span>
+            </div>
+            ${this.entries.length === 0
+              ? html`<p>
+                  Words suggested in your session feedback will be collected
+                  here.
+                </p>`
+              : html`<ul>
+                  ${this.entries.map((entry) => this.renderEntry(entry))}
+                </ul>`}
+          `}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-vocabulary-notebook': GdmVocabularyNotebook;
+  }
+}
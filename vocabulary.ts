@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {VocabularySuggestion} from './band-report';
+import {supabase} from './supabase-client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+/** A word in the candidate's notebook with its review schedule. */
+export interface VocabularyEntry {
+  id: string;
+  word: string;
+  definition: string;
+  example: string;
+  sourceSessionId: string | null;
+  topic: string | null;
+  createdAt: string;
+  dueAt: string;
+  intervalDays: number;
+  ease: number;
+  repetitions: number;
+  /** When the candidate first used the word in a later session. */
+  activatedAt: string | null;
+}
+
+/** How well the candidate recalled a word, from worst to best. */
+export const REVIEW_GRADES = [
+  {grade: 'again', label: 'Again', quality: 1},
+  {grade: 'hard', label: 'Hard', quality: 3},
+  {grade: 'good', label: 'Good', quality: 4},
+  {grade: 'easy', label: 'Easy', quality: 5},
+] as const;
+
+export type ReviewGrade = (typeof REVIEW_GRADES)[number]['grade'];
+
+/** A `vocabulary_notebook` row. */
+interface VocabularyRow {
+  id: string;
+  word: string;
+  definition: string;
+  example: string;
+  source_session_id: string | null;
+  topic: string | null;
+  created_at: string;
+  due_at: string;
+  interval_days: number;
+  ease: number;
+  repetitions: number;
+  activated_at: string | null;
+}
+
+function toEntry(row: VocabularyRow): VocabularyEntry {
+  return {
+    id: row.id,
+    word: row.word,
+    definition: row.definition,
+    example: row.example,
+    sourceSessionId: row.source_session_id,
+    topic: row.topic,
+    createdAt: row.created_at,
+    dueAt: row.due_at,
+    intervalDays: row.interval_days,
+    ease: row.ease,
+    repetitions: row.repetitions,
+    activatedAt: row.activated_at,
+  };
+}
+
+export async function fetchNotebook(
+  userId: string,
+): Promise<VocabularyEntry[]> {
+  const {data, error} = await supabase
+    .from('vocabulary_notebook')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', {ascending: false});
+  if (error) throw error;
+  return (data ?? []).map(toEntry);
+}
+
+/**
+ * Adds a session's suggested words to the notebook, due for review straight
+ * away. Words already in the notebook are left as they are.
+ */
+export async function addSuggestions(
+  userId: string,
+  sessionId: string,
+  topic: string | null,
+  suggestions: VocabularySuggestion[],
+) {
+  if (suggestions.length === 0) return;
+  const {error} = await supabase.from('vocabulary_notebook').upsert(
+    suggestions.map(({word, definition, example}) => ({
+      user_id: userId,
+      word: word.toLowerCase(),
+      definition,
+      example,
+      source_session_id: sessionId,
+      topic,
+    })),
+    {onConflict: 'user_id,word', ignoreDuplicates: true},
+  );
+  if (error) throw error;
+}
+
+/**
+ * Reschedules a word after a review with the SM-2 algorithm: a failed recall
+ * starts the word over, and each success stretches the interval by its ease.
+ */
+export function scheduleReview(
+  entry: VocabularyEntry,
+  grade: ReviewGrade,
+  now = new Date(),
+): VocabularyEntry {
+  const {quality} = REVIEW_GRADES.find((g) => g.grade === grade)!;
+  const ease = Math.max(
+    MIN_EASE,
+    entry.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02),
+  );
+
+  let repetitions = entry.repetitions + 1;
+  let intervalDays: number;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(entry.intervalDays * ease);
+  }
+
+  return {
+    ...entry,
+    ease,
+    repetitions,
+    intervalDays,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
+
+export async function saveReview(entry: VocabularyEntry) {
+  const {error} = await supabase
+    .from('vocabulary_notebook')
+    .update({
+      ease: entry.ease,
+      repetitions: entry.repetitions,
+      interval_days: entry.intervalDays,
+      due_at: entry.dueAt,
+    })
+    .eq('id', entry.id);
+  if (error) throw error;
+}
+
+export function isDue(entry: VocabularyEntry, now = new Date()) {
+  return new Date(entry.dueAt).getTime() <= now.getTime();
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches a notebook word in speech, allowing for inflections such as
+ * "mitigate" / "mitigated" / "mitigating" on each word of a phrase.
+ */
+function usagePattern(word: string) {
+  const parts = word
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => {
+      const stem = part.length > 4 ? part.replace(/(e|y)$/, '') : part;
+      return `${escapeRegExp(stem)}[a-z]{0,4}`;
+    });
+  return new RegExp(`\\b${parts.join('\\s+')}\\b`, 'i');
+}
+
+/** The notebook words the candidate used in `spoken`. */
+export function findUsedWords(entries: VocabularyEntry[], spoken: string) {
+  return entries.filter((entry) => usagePattern(entry.word).test(spoken));
+}
+
+/** Marks words as activated by the session where they were first used. */
+export async function markActivated(ids: string[], sessionId: string) {
+  if (ids.length === 0) return;
+  const {error} = await supabase
+    .from('vocabulary_notebook')
+    .update({
+      activated_at: new Date().toISOString(),
+      activated_session_id: sessionId,
+    })
+    .in('id', ids)
+    .is('activated_at', null);
+  if (error) throw error;
+}